@@ -0,0 +1,6 @@
+import { DEFAULT_CROP, listCrops } from "@/lib/simulation/crops";
+
+// Crop catalog that drives the simulate page and every crop model
+export async function GET() {
+	return Response.json({ defaultCrop: DEFAULT_CROP, crops: listCrops() });
+}
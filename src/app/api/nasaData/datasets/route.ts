@@ -0,0 +1,6 @@
+import { ALL_DATASETS, listDatasets } from "@/lib/nasa/datasets";
+
+// Dataset catalog: what the nasaData route's `dataset` parameter accepts, with units, resolution and coverage
+export async function GET() {
+	return Response.json({ defaultDataset: ALL_DATASETS, datasets: listDatasets() });
+}
@@ -0,0 +1,63 @@
+import { fetchEnvironmentalHistory, FIRST_HISTORY_YEAR, HISTORY_RESOLUTIONS, MAX_HISTORY_DAYS } from "@/lib/nasa/history";
+import { DATA_PROVIDERS } from "@/lib/nasa/providers";
+import { randomSeed } from "@/lib/random";
+import { checkCoordinates, checkDate, checkOption, checkSeed, numberParam, validationErrorResponse, type FieldError } from "@/lib/validation";
+import type { HistoryResolution } from "@/lib/nasa/types";
+
+// Temperature, precipitation, solar radiation, soil moisture and NDVI over a past date range, next to the normals
+export async function GET(request: Request) {
+	const { searchParams } = new URL(request.url);
+	const lat = numberParam(searchParams, "lat");
+	const lon = numberParam(searchParams, "lon");
+	const start = searchParams.get("start");
+	const end = searchParams.get("end");
+	const resolution = searchParams.get("resolution") ?? "daily";
+	const provider = searchParams.get("provider") ?? undefined;
+
+	const errors: FieldError[] = [];
+	checkCoordinates(errors, lat, lon);
+	checkSeed(errors, "seed", numberParam(searchParams, "seed"));
+	checkDate(errors, "start", start, true);
+	checkDate(errors, "end", end, true);
+	checkOption(errors, "resolution", resolution, HISTORY_RESOLUTIONS);
+	checkOption(errors, "provider", provider, Object.keys(DATA_PROVIDERS));
+	// The range itself can only be checked once both ends are dates
+	if (!errors.some((e) => e.field === "start" || e.field === "end")) {
+		const startDate = new Date(start as string);
+		const endDate = new Date(end as string);
+		const spanDays = Math.round((endDate.getTime() - startDate.getTime()) / 86400000) + 1;
+		if (startDate.getUTCFullYear() < FIRST_HISTORY_YEAR) {
+			errors.push({ field: "start", message: `must be in ${FIRST_HISTORY_YEAR} or later` });
+		}
+		if (endDate.getTime() > Date.now()) {
+			errors.push({ field: "end", message: "must not be in the future" });
+		}
+		if (spanDays < 1) {
+			errors.push({ field: "end", message: "must not be before start" });
+		} else if (spanDays > MAX_HISTORY_DAYS) {
+			errors.push({ field: "end", message: `must be within ${MAX_HISTORY_DAYS} days of start` });
+		}
+	}
+	if (errors.length > 0) {
+		return validationErrorResponse(errors);
+	}
+
+	// Echoed back so any response can be replayed exactly
+	const seed = numberParam(searchParams, "seed") ?? randomSeed();
+
+	try {
+		const { history } = await fetchEnvironmentalHistory(lat as number, lon as number, {
+			start: new Date(start as string),
+			end: new Date(end as string),
+			resolution: resolution as HistoryResolution,
+			seed,
+			provider
+		});
+		return Response.json(history);
+	} catch (error) {
+		return Response.json(
+			{ error: "Failed to fetch environmental history", details: error },
+			{ status: 500 }
+		);
+	}
+}
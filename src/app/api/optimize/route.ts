@@ -0,0 +1,102 @@
+import { fetchComprehensiveNasaData } from "@/lib/nasa/nasaData";
+import { DATA_PROVIDERS } from "@/lib/nasa/providers";
+import { randomSeed } from "@/lib/random";
+import {
+	countEvaluations,
+	DEFAULT_RANGES,
+	DEFAULT_WEIGHTS,
+	MAX_EVALUATIONS,
+	optimizeManagement
+} from "@/lib/simulation/optimizer";
+import { validateFarmSetup, validateObjectiveWeights, validateOptimizationRanges } from "@/lib/simulation/validation";
+import { checkCoordinates, checkDate, checkOption, checkSeed, readJsonBody, validationErrorResponse, type FieldError } from "@/lib/validation";
+import type { EconomicsInput, ObjectiveWeights, OptimizationRanges } from "@/lib/simulation/types";
+
+type OptimizeRequest = {
+	lat: number;
+	lon: number;
+	cropType?: string;
+	soilType?: string;
+	farmingMethod?: string;
+	livestockSpecies?: string;
+	grazingStrategy?: string;
+	pestControl?: string;
+	economics?: EconomicsInput;
+	ranges?: Partial<OptimizationRanges>;
+	weights?: Partial<ObjectiveWeights>;
+	seed?: number;
+	date?: string;
+	provider?: string;
+};
+
+export async function POST(request: Request) {
+	const json = await readJsonBody(request);
+	if (!json) {
+		return validationErrorResponse([{ field: "body", message: "must be a JSON object" }]);
+	}
+
+	const errors: FieldError[] = [];
+	checkCoordinates(errors, json.lat, json.lon);
+	validateFarmSetup(errors, json);
+	validateOptimizationRanges(errors, json.ranges);
+	validateObjectiveWeights(errors, json.weights);
+	checkSeed(errors, "seed", json.seed);
+	checkDate(errors, "date", json.date);
+	checkOption(errors, "provider", json.provider, Object.keys(DATA_PROVIDERS));
+	if (errors.length > 0) {
+		return validationErrorResponse(errors);
+	}
+	const body = json as OptimizeRequest;
+
+	const {
+		lat,
+		lon,
+		cropType = "Corn",
+		soilType = "Loam",
+		farmingMethod = "Conventional",
+		livestockSpecies = "Dairy Cattle",
+		grazingStrategy = "Continuous",
+		pestControl = "None",
+		economics,
+		date = new Date().toISOString(),
+		provider
+	} = body;
+	const seed = body.seed ?? randomSeed();
+	const ranges: OptimizationRanges = { ...DEFAULT_RANGES, ...body.ranges };
+	const weights: ObjectiveWeights = { ...DEFAULT_WEIGHTS, ...body.weights };
+
+	if (countEvaluations(ranges) > MAX_EVALUATIONS) {
+		return validationErrorResponse([
+			{ field: "ranges", message: `span ${countEvaluations(ranges)} combinations; narrow them to at most ${MAX_EVALUATIONS}` }
+		]);
+	}
+
+	try {
+		// Every candidate is scored against the same weather so they compare fairly
+		const nasaData = await fetchComprehensiveNasaData(lat, lon, { seed, date: new Date(date), provider });
+		const result = await optimizeManagement(
+			{
+				irrigationMmPerDay: 0,
+				fertilizerKgPerHa: 0,
+				livestockDensityPerHa: 0,
+				cropType,
+				soilType,
+				farmingMethod,
+				livestockSpecies,
+				grazingStrategy,
+				pestControl,
+				economics
+			},
+			ranges,
+			weights,
+			nasaData
+		);
+
+		return Response.json({ ...result, ranges, weights, seed, date });
+	} catch (error) {
+		return Response.json(
+			{ error: "Optimization failed", details: error },
+			{ status: 500 }
+		);
+	}
+}
@@ -2,16 +2,65 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
-import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement } from 'chart.js';
-import { Bar, Doughnut } from 'react-chartjs-2';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement, LineElement, PointElement } from 'chart.js';
+import { Bar, Doughnut, Line } from 'react-chartjs-2';
+import { qualityMark, qualityNote } from "@/lib/nasa/provenance";
+import type { EnvironmentalHistory, ValueProvenance } from "@/lib/nasa/types";
+import { randomSeed } from "@/lib/random";
+import type { EmissionsInventory, FarmBudget, GreenhouseGas, MonteCarloResult, ScoreContribution, ScoreKey, SeasonDay, SensitivityResult } from "@/lib/simulation/types";
 import styles from "./results.module.css";
 
-ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement);
+ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement, LineElement, PointElement);
+
+const SCORE_LABELS: Record<ScoreKey, string> = {
+	yieldScore: 'Crop Yield',
+	soilHealthScore: 'Soil Health',
+	waterEfficiencyScore: 'Water Efficiency',
+	sustainabilityScore: 'Sustainability',
+	waterQualityScore: 'Water Quality',
+	carbonFootprint: 'Carbon Footprint',
+	economicViability: 'Economic Viability',
+};
+
+const GAS_COLORS: Record<GreenhouseGas, string> = {
+	CO2: 'rgba(100, 116, 139, 0.8)',
+	CH4: 'rgba(245, 158, 11, 0.8)',
+	N2O: 'rgba(139, 92, 246, 0.8)',
+};
+
+// Sample farm shown when the page is opened without one from the simulate page
+const SAMPLE_FARM: Record<string, string | number> = {
+	lat: 40.7128,
+	lon: -74.0060,
+	irrigationMmPerDay: 5,
+	fertilizerKgPerHa: 15,
+	livestockDensityPerHa: 2,
+	cropType: "Corn",
+	soilType: "Loam",
+};
+
+// Query string fields the simulate page links with; the rest are option names
+const NUMERIC_FARM_FIELDS = ["lat", "lon", "irrigationMmPerDay", "fertilizerKgPerHa", "livestockDensityPerHa", "seed"];
+const FARM_FIELDS = [...NUMERIC_FARM_FIELDS, "cropType", "soilType", "farmingMethod", "livestockSpecies", "grazingStrategy", "pestControl", "provider"];
+
+function farmFromQuery(search: string): Record<string, string | number> {
+	const farm = { ...SAMPLE_FARM };
+	const params = new URLSearchParams(search);
+	FARM_FIELDS.forEach((field) => {
+		const value = params.get(field);
+		if (value !== null && value !== "") farm[field] = NUMERIC_FARM_FIELDS.includes(field) ? Number(value) : value;
+	});
+	return farm;
+}
 
 export default function ResultsPage() {
 	const [simulationData, setSimulationData] = useState<any>(null);
 	const [nasaData, setNasaData] = useState<any>(null);
+	const [history, setHistory] = useState<EnvironmentalHistory | null>(null);
 	const [loading, setLoading] = useState(true);
+	const [farm, setFarm] = useState<Record<string, string | number>>(SAMPLE_FARM);
+	const [tornadoScore, setTornadoScore] = useState<ScoreKey>('yieldScore');
+	const [explainedScore, setExplainedScore] = useState<ScoreKey>('yieldScore');
 
 	useEffect(() => {
 		// Fetch the latest simulation data
@@ -22,26 +71,43 @@ export default function ResultsPage() {
 		try {
 			setLoading(true);
 			
-			// Run a sample simulation with default values
-			const simulationResponse = await fetch("/api/simulate", {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({
-					irrigationMmPerDay: 5,
-					fertilizerKgPerHa: 15,
-					livestockDensityPerHa: 2,
-					cropType: "Corn",
-					soilType: "Loam",
-				}),
-			});
-			
+			// The farm the simulate page linked here with, else the sample farm
+			const requested = farmFromQuery(window.location.search);
+			setFarm(requested);
+			const { seed: requestedSeed, provider, ...choices } = requested;
+			const place = `lat=${choices.lat}&lon=${choices.lon}${provider ? `&provider=${provider}` : ""}`;
+			// One seed and date for every request, so all the charts show the same weather draw of the farm
+			const seed = typeof requestedSeed === "number" ? requestedSeed : randomSeed();
+			const date = new Date().toISOString();
+			const [simulationResponse, uncertaintyResponse, sensitivityResponse] = await Promise.all(
+				[{ mode: "season" }, { mode: "monteCarlo", realizations: 100 }, { mode: "sensitivity" }].map((options) =>
+					fetch("/api/simulate", {
+						method: "POST",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify({ ...choices, ...options, seed, date, ...(provider && { provider }) }),
+					})
+				)
+			);
+
 			const simulationResult = await simulationResponse.json();
-			setSimulationData(simulationResult);
+			const uncertaintyResult = await uncertaintyResponse.json();
+			const sensitivityResult = await sensitivityResponse.json();
+			setSimulationData({
+				...simulationResult,
+				uncertainty: uncertaintyResult.uncertainty,
+				sensitivity: sensitivityResult.sensitivity,
+			});
 
 			// Fetch NASA data
-			const nasaResponse = await fetch("/api/nasaData?lat=40.7128&lon=-74.0060&dataset=comprehensive");
+			const nasaResponse = await fetch(`/api/nasaData?${place}&dataset=power,smap,modis,drought&seed=${seed}&date=${date}`);
 			const nasaResult = await nasaResponse.json();
 			setNasaData(nasaResult);
+
+			// The past year week by week, against the climatological normals
+			const today = new Date(date);
+			const yearAgo = new Date(today.getTime() - 364 * 86400000);
+			const historyResponse = await fetch(`/api/nasaData/history?${place}&start=${yearAgo.toISOString().slice(0, 10)}&end=${today.toISOString().slice(0, 10)}&resolution=weekly&seed=${seed}`);
+			if (historyResponse.ok) setHistory(await historyResponse.json());
 			
 		} catch (error) {
 			console.error("Error fetching simulation data:", error);
@@ -80,55 +146,374 @@ export default function ResultsPage() {
 		);
 	}
 
-	// Performance chart data
+	// Weather uncertainty from the Monte Carlo run, when available
+	const uncertainty: MonteCarloResult | undefined = simulationData.uncertainty;
+	const performanceKeys: ScoreKey[] = ['yieldScore', 'soilHealthScore', 'waterEfficiencyScore', 'sustainabilityScore'];
+	const scoreValue = (key: ScoreKey) => uncertainty ? Math.round(uncertainty.scores[key].mean) : simulationData[key];
+	const scoreRange = (key: ScoreKey) => uncertainty && (
+		<div className={styles.statRange}>
+			P10–P90: {Math.round(uncertainty.scores[key].p10)}–{Math.round(uncertainty.scores[key].p90)} (±{uncertainty.scores[key].stdDev})
+		</div>
+	);
+
+	// Performance chart data; economic viability is profit in points with no ceiling, so it gets its own axis
+	const chartedKeys: ScoreKey[] = [...performanceKeys, 'economicViability'];
+	const scoreAxis = (key: ScoreKey) => key === 'economicViability' ? 'y1' : 'y';
 	const performanceChartData = {
-		labels: ['Crop Yield', 'Soil Health', 'Water Efficiency', 'Sustainability'],
+		labels: chartedKeys.map((key) => SCORE_LABELS[key]),
+		datasets: (['y', 'y1'] as const).flatMap((axis) => {
+			const onAxis = <T,>(value: (key: ScoreKey) => T) => chartedKeys.map((key) => scoreAxis(key) === axis ? value(key) : null);
+			return [
+				...(uncertainty ? [{
+					label: 'P10–P90 range',
+					data: onAxis((key): [number, number] => [uncertainty.scores[key].p10, uncertainty.scores[key].p90]),
+					yAxisID: axis,
+					backgroundColor: 'rgba(45, 55, 72, 0.25)',
+					borderColor: 'rgba(45, 55, 72, 0.8)',
+					borderWidth: 1,
+					barPercentage: 0.2,
+					grouped: false,
+					order: 0,
+				}] : []),
+				{
+					label: uncertainty ? 'Median (P50)' : 'Score',
+					data: onAxis((key) => uncertainty ? uncertainty.scores[key].p50 : simulationData[key]),
+					yAxisID: axis,
+					grouped: false,
+					order: 1,
+					backgroundColor: [
+						'rgba(34, 197, 94, 0.8)',   // Green for yield
+						'rgba(245, 158, 11, 0.8)',  // Orange for soil
+						'rgba(59, 130, 246, 0.8)',  // Blue for water
+						'rgba(16, 185, 129, 0.8)',  // Teal for sustainability
+						'rgba(139, 92, 246, 0.8)'   // Purple for economics
+					],
+					borderColor: [
+						'rgba(34, 197, 94, 1)',
+						'rgba(245, 158, 11, 1)',
+						'rgba(59, 130, 246, 1)',
+						'rgba(16, 185, 129, 1)',
+						'rgba(139, 92, 246, 1)'
+					],
+					borderWidth: 2,
+					borderRadius: 8,
+				},
+			];
+		}),
+	};
+
+	// Tornado chart: swing of the selected score as each input moves across its range
+	const sensitivity: SensitivityResult | undefined = simulationData.sensitivity;
+	const tornadoFactors = sensitivity
+		? [...sensitivity.factors].sort((a, b) => b.scores[tornadoScore].swing - a.scores[tornadoScore].swing)
+		: [];
+	const tornadoBaseline = sensitivity?.baseline[tornadoScore] ?? 0;
+	const tornadoChartData = {
+		labels: tornadoFactors.map((f) => f.label),
 		datasets: [
 			{
-				label: 'Score',
-				data: [
-					simulationData.yieldScore,
-					simulationData.soilHealthScore,
-					simulationData.waterEfficiencyScore,
-					simulationData.sustainabilityScore
-				],
+				label: 'Lowers score',
+				data: tornadoFactors.map((f): [number, number] => [f.scores[tornadoScore].low - tornadoBaseline, 0]),
+				backgroundColor: 'rgba(239, 68, 68, 0.8)',
+				borderColor: 'rgba(239, 68, 68, 1)',
+				borderWidth: 1,
+				grouped: false,
+			},
+			{
+				label: 'Raises score',
+				data: tornadoFactors.map((f): [number, number] => [0, f.scores[tornadoScore].high - tornadoBaseline]),
+				backgroundColor: 'rgba(34, 197, 94, 0.8)',
+				borderColor: 'rgba(34, 197, 94, 1)',
+				borderWidth: 1,
+				grouped: false,
+			},
+		],
+	};
+
+	const tornadoChartOptions = {
+		indexAxis: 'y' as const,
+		responsive: true,
+		maintainAspectRatio: false,
+		plugins: {
+			legend: {
+				position: 'bottom' as const,
+			},
+		},
+		scales: {
+			x: {
+				title: { display: true, text: `Change from baseline (${tornadoBaseline})` },
+				grid: { color: 'rgba(0, 0, 0, 0.1)' },
+			},
+			y: {
+				grid: { display: false },
+			},
+		},
+	};
+
+	// Waterfall chart: each factor's points stacked from zero up to the final score
+	const contributions: ScoreContribution[] = simulationData.contributions?.[explainedScore] ?? [];
+	const waterfallSteps = contributions.reduce<[number, number][]>((steps, c) => {
+		const start = steps.length > 0 ? steps[steps.length - 1][1] : 0;
+		return [...steps, [start, start + c.points]];
+	}, []);
+	const waterfallChartData = {
+		labels: [...contributions.map((c) => c.factor), 'Final score'],
+		datasets: [
+			{
+				label: 'Points',
+				data: [...waterfallSteps, [0, simulationData[explainedScore]] as [number, number]],
 				backgroundColor: [
-					'rgba(34, 197, 94, 0.8)',   // Green for yield
-					'rgba(245, 158, 11, 0.8)',  // Orange for soil
-					'rgba(59, 130, 246, 0.8)',  // Blue for water
-					'rgba(16, 185, 129, 0.8)'   // Teal for sustainability
-				],
-				borderColor: [
-					'rgba(34, 197, 94, 1)',
-					'rgba(245, 158, 11, 1)',
-					'rgba(59, 130, 246, 1)',
-					'rgba(16, 185, 129, 1)'
+					...contributions.map((c) => c.points >= 0 ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)'),
+					'rgba(102, 126, 234, 0.8)',
 				],
-				borderWidth: 2,
-				borderRadius: 8,
+				borderRadius: 4,
 			},
 		],
 	};
 
-	// Environmental impact chart
-	const impactChartData = {
-		labels: ['Carbon Footprint', 'Economic Viability'],
+	const waterfallChartOptions = {
+		responsive: true,
+		maintainAspectRatio: false,
+		plugins: {
+			legend: {
+				display: false,
+			},
+			tooltip: {
+				callbacks: {
+					label: (context: { dataIndex: number }) => {
+						const c = contributions[context.dataIndex];
+						if (!c) return `Final score: ${simulationData[explainedScore]}`;
+						return `${c.points > 0 ? '+' : ''}${c.points} (${c.factor}: ${c.input}) - ${c.reason}`;
+					},
+				},
+			},
+		},
+		scales: {
+			y: {
+				beginAtZero: true,
+				grid: { color: 'rgba(0, 0, 0, 0.1)' },
+			},
+			x: {
+				grid: { display: false },
+			},
+		},
+	};
+
+	// Farm budget: where the money goes
+	const budget: FarmBudget | undefined = simulationData.budget;
+	const money = (amount: number) => `${amount < 0 ? '-' : ''}${budget?.currencySymbol ?? '$'}${Math.abs(Math.round(amount)).toLocaleString()}`;
+	const costChartData = {
+		labels: budget?.costs.map((l) => l.item) ?? [],
 		datasets: [
 			{
-				data: [simulationData.carbonFootprint, simulationData.economicViability],
+				data: budget?.costs.map((l) => l.amount) ?? [],
 				backgroundColor: [
-					'rgba(239, 68, 68, 0.8)',   // Red for carbon
-					'rgba(34, 197, 94, 0.8)'    // Green for economic
-				],
-				borderColor: [
-					'rgba(239, 68, 68, 1)',
-					'rgba(34, 197, 94, 1)'
+					'rgba(34, 197, 94, 0.8)',
+					'rgba(59, 130, 246, 0.8)',
+					'rgba(245, 158, 11, 0.8)',
+					'rgba(16, 185, 129, 0.8)',
+					'rgba(239, 68, 68, 0.8)',
+					'rgba(139, 92, 246, 0.8)',
+					'rgba(100, 116, 139, 0.8)'
 				],
 				borderWidth: 2,
 			},
 		],
 	};
 
+	// Greenhouse gas inventory by source, colored by gas
+	const emissions: EmissionsInventory | undefined = simulationData.emissions;
+	const emissionsChartData = {
+		labels: emissions?.sources.map((s) => s.source) ?? [],
+		datasets: [
+			{
+				label: 'kg CO2e/ha/year',
+				data: emissions?.sources.map((s) => s.kgCo2ePerHa) ?? [],
+				backgroundColor: emissions?.sources.map((s) => GAS_COLORS[s.gas]) ?? [],
+			},
+		],
+	};
+
+	const emissionsChartOptions = {
+		indexAxis: 'y' as const,
+		responsive: true,
+		maintainAspectRatio: false,
+		plugins: {
+			legend: { display: false },
+			tooltip: {
+				callbacks: {
+					label: (context: { dataIndex: number }) => {
+						const s = emissions?.sources[context.dataIndex];
+						return s ? `${s.kgCo2ePerHa} kg CO2e (${s.kgGasPerHa} kg ${s.gas})` : '';
+					},
+				},
+			},
+		},
+		scales: {
+			x: { title: { display: true, text: 'kg CO2e per hectare per year' } },
+			y: { grid: { display: false } },
+		},
+	};
+
+	// Daily season timeline
+	const seasonDays: SeasonDay[] = simulationData.season?.daily ?? [];
+	const seasonChartData = {
+		labels: seasonDays.map((d) => d.day),
+		datasets: [
+			{
+				label: 'Soil Water (mm)',
+				data: seasonDays.map((d) => d.soilWaterMm),
+				borderColor: 'rgba(59, 130, 246, 1)',
+				backgroundColor: 'rgba(59, 130, 246, 0.2)',
+				yAxisID: 'y',
+				pointRadius: 0,
+			},
+			{
+				label: 'Biomass (t/ha)',
+				data: seasonDays.map((d) => d.biomassTPerHa),
+				borderColor: 'rgba(34, 197, 94, 1)',
+				backgroundColor: 'rgba(34, 197, 94, 0.2)',
+				yAxisID: 'y1',
+				pointRadius: 0,
+			},
+			{
+				label: 'Stress (%)',
+				data: seasonDays.map((d) => Math.round(Math.max(d.waterStress, d.heatStress, d.waterloggingStress) * 100)),
+				borderColor: 'rgba(239, 68, 68, 1)',
+				backgroundColor: 'rgba(239, 68, 68, 0.2)',
+				yAxisID: 'y',
+				pointRadius: 0,
+			},
+		],
+	};
+
+	const historyLabels = history?.series.periodStart ?? [];
+	const historyChartData = {
+		labels: historyLabels,
+		datasets: [
+			{
+				label: 'Temperature (°C)',
+				data: history?.series.temperature2m ?? [],
+				borderColor: 'rgba(239, 68, 68, 1)',
+				backgroundColor: 'rgba(239, 68, 68, 0.2)',
+				yAxisID: 'y',
+				pointRadius: 0,
+			},
+			{
+				label: 'Normal Temperature (°C)',
+				data: history?.series.normalTempC ?? [],
+				borderColor: 'rgba(239, 68, 68, 0.5)',
+				borderDash: [6, 4],
+				yAxisID: 'y',
+				pointRadius: 0,
+			},
+			{
+				label: 'Precipitation (mm/week)',
+				data: history?.series.precipitation ?? [],
+				borderColor: 'rgba(59, 130, 246, 1)',
+				backgroundColor: 'rgba(59, 130, 246, 0.2)',
+				yAxisID: 'y1',
+				pointRadius: 0,
+			},
+			{
+				label: 'Normal Precipitation (mm/week)',
+				data: history?.series.normalPrecipitationMm ?? [],
+				borderColor: 'rgba(59, 130, 246, 0.5)',
+				borderDash: [6, 4],
+				yAxisID: 'y1',
+				pointRadius: 0,
+			},
+		],
+	};
+	const historyChartOptions = {
+		responsive: true,
+		maintainAspectRatio: false,
+		plugins: {
+			legend: {
+				position: 'bottom' as const,
+			},
+		},
+		scales: {
+			x: {
+				title: { display: true, text: 'Week starting' },
+				grid: { display: false },
+			},
+			y: {
+				position: 'left' as const,
+				title: { display: true, text: '°C' },
+			},
+			y1: {
+				beginAtZero: true,
+				position: 'right' as const,
+				title: { display: true, text: 'mm' },
+				grid: { drawOnChartArea: false },
+			},
+		},
+	};
+	const conditionsChartData = {
+		labels: historyLabels,
+		datasets: [
+			{
+				label: 'Root-Zone Soil Moisture (m³/m³)',
+				data: history?.series.soilMoistureRootZone ?? [],
+				borderColor: 'rgba(161, 98, 7, 1)',
+				backgroundColor: 'rgba(161, 98, 7, 0.2)',
+				pointRadius: 0,
+			},
+			{
+				label: 'NDVI',
+				data: history?.series.ndvi ?? [],
+				borderColor: 'rgba(34, 197, 94, 1)',
+				backgroundColor: 'rgba(34, 197, 94, 0.2)',
+				pointRadius: 0,
+			},
+		],
+	};
+	const conditionsChartOptions = {
+		responsive: true,
+		maintainAspectRatio: false,
+		plugins: {
+			legend: {
+				position: 'bottom' as const,
+			},
+		},
+		scales: {
+			x: {
+				title: { display: true, text: 'Week starting' },
+				grid: { display: false },
+			},
+			y: {
+				beginAtZero: true,
+				max: 1,
+			},
+		},
+	};
+
+	const seasonChartOptions = {
+		responsive: true,
+		maintainAspectRatio: false,
+		plugins: {
+			legend: {
+				position: 'bottom' as const,
+			},
+		},
+		scales: {
+			x: {
+				title: { display: true, text: 'Day of season' },
+				grid: { display: false },
+			},
+			y: {
+				beginAtZero: true,
+				position: 'left' as const,
+			},
+			y1: {
+				beginAtZero: true,
+				position: 'right' as const,
+				grid: { drawOnChartArea: false },
+			},
+		},
+	};
+
 	const chartOptions = {
 		responsive: true,
 		maintainAspectRatio: false,
@@ -151,6 +536,20 @@ export default function ResultsPage() {
 					color: 'rgba(0, 0, 0, 0.1)',
 				},
 			},
+			y1: {
+				beginAtZero: true,
+				position: 'right' as const,
+				title: { display: true, text: 'Economic Viability', color: '#4a5568' },
+				ticks: {
+					color: '#4a5568',
+					font: {
+						size: 12,
+					},
+				},
+				grid: {
+					drawOnChartArea: false,
+				},
+			},
 			x: {
 				ticks: {
 					color: '#4a5568',
@@ -186,7 +585,7 @@ export default function ResultsPage() {
 			<div className={styles.header}>
 				<h1 className={styles.title}>Farm Analysis Results</h1>
 				<p className={styles.subtitle}>
-					Your farming simulation results with NASA satellite data analysis
+					{farm.cropType} on {farm.soilType} soil at {Number(farm.lat).toFixed(4)}, {Number(farm.lon).toFixed(4)} with NASA satellite data analysis
 				</p>
 			</div>
 
@@ -194,24 +593,45 @@ export default function ResultsPage() {
 				{/* Key Metrics */}
 				<div className={styles.statsGrid}>
 					<div className={styles.statCard}>
-						<div className={styles.statValue}>{simulationData.yieldScore}</div>
+						<div className={styles.statValue}>{scoreValue('yieldScore')}</div>
 						<div className={styles.statLabel}>Crop Yield</div>
 						<div className={styles.statDesc}>Expected harvest output</div>
+						{scoreRange('yieldScore')}
 					</div>
 					<div className={styles.statCard}>
-						<div className={styles.statValue}>{simulationData.soilHealthScore}</div>
+						<div className={styles.statValue}>{scoreValue('soilHealthScore')}</div>
 						<div className={styles.statLabel}>Soil Health</div>
 						<div className={styles.statDesc}>Long-term fertility</div>
+						{scoreRange('soilHealthScore')}
 					</div>
 					<div className={styles.statCard}>
-						<div className={styles.statValue}>{simulationData.waterEfficiencyScore}</div>
+						<div className={styles.statValue}>{scoreValue('waterEfficiencyScore')}</div>
 						<div className={styles.statLabel}>Water Efficiency</div>
 						<div className={styles.statDesc}>Irrigation optimization</div>
+						{scoreRange('waterEfficiencyScore')}
 					</div>
 					<div className={styles.statCard}>
-						<div className={styles.statValue}>{simulationData.sustainabilityScore}</div>
+						<div className={styles.statValue}>{scoreValue('sustainabilityScore')}</div>
 						<div className={styles.statLabel}>Sustainability</div>
 						<div className={styles.statDesc}>Environmental impact</div>
+						{scoreRange('sustainabilityScore')}
+					</div>
+					<div className={styles.statCard}>
+						<div className={styles.statValue}>{scoreValue('waterQualityScore')}</div>
+						<div className={styles.statLabel}>Water Quality</div>
+						<div className={styles.statDesc}>Nitrogen kept out of waterways</div>
+						{scoreRange('waterQualityScore')}
+						{simulationData.nitrogenBalance && (
+							<div className={styles.statRange}>
+								N lost: {simulationData.nitrogenBalance.lostToWaterKgPerHa} kg/ha to water, {simulationData.nitrogenBalance.lostToAirKgPerHa} kg/ha to air
+							</div>
+						)}
+					</div>
+					<div className={styles.statCard}>
+						<div className={styles.statValue}>{scoreValue('carbonFootprint')}</div>
+						<div className={styles.statLabel}>Carbon Footprint</div>
+						<div className={styles.statDesc}>kg CO2e per hectare per year</div>
+						{scoreRange('carbonFootprint')}
 					</div>
 				</div>
 
@@ -219,14 +639,155 @@ export default function ResultsPage() {
 				<div className={styles.chartsGrid}>
 					<div className={styles.chartContainer}>
 						<h3 className={styles.chartTitle}>Performance Overview</h3>
+						{uncertainty && (
+							<p className={styles.chartNote}>
+								Median and P10–P90 range across {uncertainty.realizations} weather realizations
+							</p>
+						)}
 						<Bar data={performanceChartData} options={chartOptions} />
 					</div>
+
+					{sensitivity && (
+						<div className={styles.chartContainer}>
+							<h3 className={styles.chartTitle}>What Drives This Score</h3>
+							<select
+								value={tornadoScore}
+								onChange={(e) => setTornadoScore(e.target.value as ScoreKey)}
+								className={styles.chartSelect}
+							>
+								{(Object.keys(SCORE_LABELS) as ScoreKey[]).map((key) => (
+									<option key={key} value={key}>{SCORE_LABELS[key]}</option>
+								))}
+							</select>
+							<div className={styles.tallChart}>
+								<Bar data={tornadoChartData} options={tornadoChartOptions} />
+							</div>
+						</div>
+					)}
 					
+					{budget && (
+						<div className={styles.chartContainer}>
+							<h3 className={styles.chartTitle}>Farm Budget</h3>
+							<p className={styles.chartNote}>
+								{budget.region} prices in {budget.currency} per hectare per year
+							</p>
+							<Doughnut data={costChartData} options={doughnutOptions} />
+							<table className={styles.budgetTable}>
+								<tbody>
+									{budget.revenue.map((l) => (
+										<tr key={l.item}>
+											<td>{l.item}</td>
+											<td>{l.quantity} {l.unit} × {budget.currencySymbol}{l.unitPrice}</td>
+											<td className={styles.pointsUp}>{money(l.amount)}</td>
+										</tr>
+									))}
+									{budget.costs.map((l) => (
+										<tr key={l.item}>
+											<td>{l.item}</td>
+											<td>{l.quantity} {l.unit} × {budget.currencySymbol}{l.unitPrice}</td>
+											<td className={styles.pointsDown}>{money(-l.amount)}</td>
+										</tr>
+									))}
+									<tr className={styles.budgetTotal}>
+										<td>Profit</td>
+										<td>{money(budget.totalRevenue)} revenue − {money(budget.totalCosts)} costs</td>
+										<td>{money(budget.profit)}</td>
+									</tr>
+								</tbody>
+							</table>
+							<div className={styles.seasonSummary}>
+								<div>Your Yield: {budget.yieldTPerHa} t/ha</div>
+								<div>Break-even Yield: {budget.breakEvenYieldTPerHa} t/ha</div>
+								<div>Return on Inputs: {budget.returnOnInputs}%</div>
+							</div>
+						</div>
+					)}
+				</div>
+
+				{/* Greenhouse Gas Inventory */}
+				{emissions && (
 					<div className={styles.chartContainer}>
-						<h3 className={styles.chartTitle}>Environmental Impact</h3>
-						<Doughnut data={impactChartData} options={doughnutOptions} />
+						<h3 className={styles.chartTitle}>Greenhouse Gas Inventory</h3>
+						<p className={styles.chartNote}>
+							IPCC Tier 1 factors, 100-year warming potentials (CH4 ×28, N2O ×265)
+						</p>
+						<div className={styles.tallChart}>
+							<Bar data={emissionsChartData} options={emissionsChartOptions} />
+						</div>
+						<div className={styles.seasonSummary}>
+							<div>Total: {(emissions.totalKgCo2ePerHa / 1000).toFixed(2)} t CO2e/ha</div>
+							<div>CO2: {emissions.gases.CO2} kg</div>
+							<div>CH4: {emissions.gases.CH4} kg</div>
+							<div>N2O: {emissions.gases.N2O} kg</div>
+							<div>Per Tonne of Crop: {emissions.kgCo2ePerTonneCrop} kg CO2e</div>
+							{emissions.livestockKgCo2ePerHa > 0 && (
+								<div>Per Livestock Unit: {emissions.kgCo2ePerLivestockUnit} kg CO2e</div>
+							)}
+						</div>
 					</div>
-				</div>
+				)}
+
+				{/* Score Breakdown */}
+				{contributions.length > 0 && (
+					<div className={styles.chartContainer}>
+						<h3 className={styles.chartTitle}>Why You Got This Score</h3>
+						<select
+							value={explainedScore}
+							onChange={(e) => setExplainedScore(e.target.value as ScoreKey)}
+							className={styles.chartSelect}
+						>
+							{(Object.keys(SCORE_LABELS) as ScoreKey[]).map((key) => (
+								<option key={key} value={key}>{SCORE_LABELS[key]}</option>
+							))}
+						</select>
+						<div className={styles.tallChart}>
+							<Bar data={waterfallChartData} options={waterfallChartOptions} />
+						</div>
+						<ul className={styles.contributionList}>
+							{contributions.map((c, index) => (
+								<li key={index}>
+									<span className={c.points >= 0 ? styles.pointsUp : styles.pointsDown}>
+										{c.points > 0 ? '+' : ''}{c.points}
+									</span>{' '}
+									{c.factor} ({c.input}): {c.reason}
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+
+				{/* Season Timeline */}
+				{simulationData.season && (
+					<div className={styles.chartContainer}>
+						<h3 className={styles.chartTitle}>Growing Season Timeline</h3>
+						<Line data={seasonChartData} options={seasonChartOptions} />
+						<div className={styles.seasonSummary}>
+							<div>Final Yield: {simulationData.season.finalYieldTPerHa} t/ha</div>
+							<div>Attainable: {simulationData.season.potentialYieldTPerHa} t/ha</div>
+							<div>Water Stress Days: {simulationData.season.stressDays.water}</div>
+							<div>Drainage Losses: {simulationData.season.totals.drainageMm} mm</div>
+							<div>Runoff Losses: {simulationData.season.totals.runoffMm} mm</div>
+						</div>
+					</div>
+				)}
+
+				{/* Past Year */}
+				{history && (
+					<>
+						<div className={styles.chartContainer}>
+							<h3 className={styles.chartTitle}>Past Year vs Normal</h3>
+							<Line data={historyChartData} options={historyChartOptions} />
+						</div>
+						<div className={styles.chartContainer}>
+							<h3 className={styles.chartTitle}>Soil Moisture &amp; Vegetation</h3>
+							<Line data={conditionsChartData} options={conditionsChartOptions} />
+							<div className={styles.seasonSummary}>
+								<div>Weather: {history.sources.weather} <QualityMark provenance={history.provenance.weather} /></div>
+								<div>Soil moisture and NDVI: {history.sources.soilMoisture} <QualityMark provenance={history.provenance.soilMoisture} /></div>
+							</div>
+						</div>
+					</>
+				)}
 
 				{/* NASA Data Section */}
 				{nasaData && (
@@ -236,22 +797,25 @@ export default function ResultsPage() {
 							<div className={styles.nasaCard}>
 								<h4>Weather Conditions</h4>
 								<div className={styles.nasaData}>
-									<div>Temperature: {nasaData.data?.power?.temperature2m?.toFixed(1)}°C</div>
-									<div>Rainfall: {nasaData.data?.power?.precipitation?.toFixed(1)}mm</div>
-									<div>Humidity: {nasaData.data?.power?.humidity?.toFixed(1)}%</div>
-									<div>Wind Speed: {nasaData.data?.power?.windSpeed?.toFixed(1)} m/s</div>
+									<div>Temperature: {nasaData.data?.power?.temperature2m?.toFixed(1)}°C <QualityMark provenance={nasaData.provenance?.power?.temperature2m} /></div>
+									<div>Rainfall: {nasaData.data?.power?.precipitation?.toFixed(1)}mm <QualityMark provenance={nasaData.provenance?.power?.precipitation} /></div>
+									<div>Humidity: {nasaData.data?.power?.humidity?.toFixed(1)}% <QualityMark provenance={nasaData.provenance?.power?.humidity} /></div>
+									<div>Wind Speed: {nasaData.data?.power?.windSpeed?.toFixed(1)} m/s <QualityMark provenance={nasaData.provenance?.power?.windSpeed} /></div>
 								</div>
 							</div>
 							<div className={styles.nasaCard}>
 								<h4>Soil & Vegetation</h4>
 								<div className={styles.nasaData}>
-									<div>Soil Moisture: {(nasaData.data?.smap?.soilMoistureRootZone * 100)?.toFixed(1)}%</div>
-									<div>Soil Temperature: {nasaData.data?.smap?.soilTemperature?.toFixed(1)}°C</div>
-									<div>Vegetation Health: {nasaData.data?.modis?.ndvi > 0.7 ? "Excellent" : nasaData.data?.modis?.ndvi > 0.5 ? "Good" : "Poor"}</div>
-									<div>Drought Status: {nasaData.data?.drought?.droughtCategory}</div>
+									<div>Soil Moisture: {(nasaData.data?.smap?.soilMoistureRootZone * 100)?.toFixed(1)}% <QualityMark provenance={nasaData.provenance?.smap?.soilMoistureRootZone} /></div>
+									<div>Soil Temperature: {nasaData.data?.smap?.soilTemperature?.toFixed(1)}°C <QualityMark provenance={nasaData.provenance?.smap?.soilTemperature} /></div>
+									<div>Vegetation Health: {nasaData.data?.modis?.ndvi > 0.7 ? "Excellent" : nasaData.data?.modis?.ndvi > 0.5 ? "Good" : "Poor"} <QualityMark provenance={nasaData.provenance?.modis?.ndvi} /></div>
+									<div>Drought Status: {nasaData.data?.drought?.droughtCategory} <QualityMark provenance={nasaData.provenance?.drought?.droughtCategory} /></div>
 								</div>
 							</div>
 						</div>
+						<div className={styles.nasaData}>
+							<div>Tagged values are estimated, recorded elsewhere, fallbacks or defaults; hover a tag for its source.</div>
+						</div>
 					</div>
 				)}
 
@@ -319,4 +883,8 @@ export default function ResultsPage() {
 	);
 }
 
-
+// Tag on any value that wasn't observed for this location, with its source on hover
+function QualityMark({ provenance }: { provenance?: ValueProvenance }) {
+	const mark = qualityMark(provenance);
+	return mark ? <sup className={styles.qualityMark} title={qualityNote(provenance)}>{mark}</sup> : null;
+}
@@ -1,11 +1,79 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import dynamic from "next/dynamic";
 import type { LatLngExpression } from "leaflet";
+import { Chart as ChartJS, LinearScale, PointElement, Tooltip, Legend, type ActiveElement } from "chart.js";
+import { Scatter } from "react-chartjs-2";
+import { qualityMark, qualityNote } from "@/lib/nasa/provenance";
+import { DATA_PROVIDER_DESCRIPTIONS, DATA_PROVIDER_NAMES } from "@/lib/nasa/providerNames";
+import { CLIMATE_PATHWAYS, PRECIPITATION_SHIFTS, PROJECTION_DECADES } from "@/lib/simulation/climate";
+import type { ProviderFallback, ValueProvenance } from "@/lib/nasa/types";
+import type { CropProfile } from "@/lib/simulation/crops";
+import { CURRENCIES, DEFAULT_REGION, REGIONAL_PRESETS, resolveEconomics } from "@/lib/simulation/economics";
+import { FARMING_METHODS } from "@/lib/simulation/farmingMethods";
+import { GRAZING_STRATEGIES, LIVESTOCK_SPECIES } from "@/lib/simulation/livestock";
+import { DEFAULT_WEIGHTS } from "@/lib/simulation/optimizer";
+import { PEST_CONTROLS } from "@/lib/simulation/pests";
+import { COVER_CROPS } from "@/lib/simulation/rotation";
+import { EVENT_EFFECTS, SCENARIO_PRESETS } from "@/lib/simulation/scenarios";
+import type {
+	ClimateAdaptation,
+	ClimateProjectionInput,
+	EconomicsInput,
+	InputCosts,
+	IrrigationWindow,
+	ObjectiveKey,
+	ObjectiveWeights,
+	OptimizationCandidate,
+	OptimizationResult,
+	RotationPlanYear,
+	RotationYearResult,
+	ScenarioEventReport,
+	ScoreKey,
+	SimulationMode
+} from "@/lib/simulation/types";
+import type { FieldError } from "@/lib/validation";
 import styles from "./simulate.module.css";
 
+ChartJS.register(LinearScale, PointElement, Tooltip, Legend);
+
+const OBJECTIVE_LABELS: Record<ObjectiveKey, string> = {
+	yield: "Yield",
+	sustainability: "Sustainability",
+	waterEfficiency: "Water Efficiency",
+	economicViability: "Economic Viability",
+	carbon: "Low Carbon",
+};
+
+const COST_LABELS: Record<keyof InputCosts, string> = {
+	fertilizerPerKg: "Fertilizer (per kg)",
+	waterPerM3: "Water (per m³)",
+	energyPerKWh: "Energy (per kWh)",
+	feedPerTonneDm: "Feed (per t DM)",
+	laborPerHour: "Labor (per hour)",
+	machineryPerHa: "Machinery (per ha)",
+};
+
+const CLIMATE_SCORE_LABELS: Partial<Record<ScoreKey, string>> = {
+	yieldScore: "Yield",
+	soilHealthScore: "Soil Health",
+	waterEfficiencyScore: "Water Efficiency",
+	sustainabilityScore: "Sustainability",
+	economicViability: "Economic Viability",
+};
+
+// Monte Carlo and sensitivity runs belong to the results page, which charts their spread
+const MODE_LABELS: Partial<Record<SimulationMode, string>> = {
+	snapshot: "Snapshot of current conditions",
+	season: "Day-by-day growing season",
+	rotation: "Multi-year crop rotation",
+};
+
+// Request fields the server reports on without a control of their own
+const GENERAL_FIELDS = ["body", "date", "realizations", "ranges"];
+
 const LeafletMap = dynamic(() => import("@/components/LeafletMap"), { ssr: false });
 
 export default function SimulatePage() {
@@ -14,11 +82,46 @@ export default function SimulatePage() {
 	const [irrigation, setIrrigation] = useState<number>(5);
 	const [fertilizer, setFertilizer] = useState<number>(15);
 	const [livestock, setLivestock] = useState<number>(2);
+	const [crops, setCrops] = useState<CropProfile[]>([]);
 	const [cropType, setCropType] = useState<string>("Corn");
 	const [soilType, setSoilType] = useState<string>("Loam");
+	const [farmingMethod, setFarmingMethod] = useState<string>("Conventional");
+	const [livestockSpecies, setLivestockSpecies] = useState<string>("Dairy Cattle");
+	const [grazingStrategy, setGrazingStrategy] = useState<string>("Continuous");
+	const [pestControl, setPestControl] = useState<string>("None");
+	const [scenario, setScenario] = useState<string[]>([]);
+	const [climate, setClimate] = useState<ClimateProjectionInput | null>(null);
+	const [region, setRegion] = useState<string>(DEFAULT_REGION);
+	const [currency, setCurrency] = useState<string>(REGIONAL_PRESETS[DEFAULT_REGION].currency);
+	// Player edits on top of the regional preset, in the selected currency
+	const [priceOverrides, setPriceOverrides] = useState<EconomicsInput>({});
+	const [seed, setSeed] = useState<string>("");
+	// Blank uses the server's configured provider
+	const [provider, setProvider] = useState<string>("");
+	// Blank simulates the present season
+	const [historicalYear, setHistoricalYear] = useState<string>("");
+	const [mode, setMode] = useState<SimulationMode>("snapshot");
+	const [irrigationSchedule, setIrrigationSchedule] = useState<IrrigationWindow[]>([]);
+	const [rotationPlan, setRotationPlan] = useState<RotationPlanYear[]>([
+		{ cropType: "Corn", coverCrop: "None" },
+		{ cropType: "Soybeans", coverCrop: "None" },
+		{ cropType: "Wheat", coverCrop: "Clover" },
+	]);
+	const [weights, setWeights] = useState<ObjectiveWeights>(DEFAULT_WEIGHTS);
+	const [optimizing, setOptimizing] = useState<boolean>(false);
+	const [optimization, setOptimization] = useState<OptimizationResult | null>(null);
 	const [loading, setLoading] = useState<boolean>(false);
 	const [result, setResult] = useState<any>(null);
 	const [nasaData, setNasaData] = useState<any>(null);
+	const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+
+	useEffect(() => {
+		// The crop catalog lives server-side so new crops show up without a client change
+		fetch("/api/crops")
+			.then((res) => res.json())
+			.then((data) => setCrops(data.crops ?? []))
+			.catch((error) => console.error("Error fetching crop catalog:", error));
+	}, []);
 
 	const mapCenter = useMemo<LatLngExpression>(() => [lat, lon], [lat, lon]);
 
@@ -27,35 +130,123 @@ export default function SimulatePage() {
 		setLon(selectedLng);
 	}, []);
 
-	const fetchNasa = useCallback(async () => {
-		const params = new URLSearchParams({ lat: String(lat), lon: String(lon), dataset: "comprehensive" });
-		const res = await fetch(`/api/nasaData?${params.toString()}`);
-		const data = await res.json();
-		setNasaData(data);
-		return data;
-	}, [lat, lon]);
+	const presetEconomics = useMemo(() => resolveEconomics({ region, currency }), [region, currency]);
+	const economics = useMemo<EconomicsInput>(() => ({ region, currency, ...priceOverrides }), [region, currency, priceOverrides]);
+
+	const changeRegion = useCallback((name: string) => {
+		setRegion(name);
+		setCurrency(REGIONAL_PRESETS[name].currency);
+		setPriceOverrides({});
+	}, []);
+
+	const changeCurrency = useCallback((code: string) => {
+		setCurrency(code);
+		setPriceOverrides({});
+	}, []);
 
 	const runSim = useCallback(async () => {
 		setLoading(true);
 		try {
-			await fetchNasa();
 			const res = await fetch("/api/simulate", {
 				method: "POST",
 				headers: { "Content-Type": "application/json" },
 				body: JSON.stringify({
+					lat,
+					lon,
 					irrigationMmPerDay: irrigation,
 					fertilizerKgPerHa: fertilizer,
 					livestockDensityPerHa: livestock,
 					cropType: cropType,
 					soilType: soilType,
+					farmingMethod: farmingMethod,
+					livestockSpecies: livestockSpecies,
+					grazingStrategy: grazingStrategy,
+					pestControl: pestControl,
+					economics: economics,
+					scenario: scenario,
+					...(climate && { climate }),
+					...(seed.trim() !== "" && { seed: Number(seed) }),
+					...(provider && { provider }),
+					...(historicalYear.trim() !== "" && { historicalYear: Number(historicalYear) }),
+					...(irrigationSchedule.length > 0 && { irrigationSchedule }),
+					...(mode !== "snapshot" && { mode }),
+					...(mode === "rotation" && { rotation: rotationPlan }),
 				}),
 			});
 			const data = await res.json();
-			setResult(data);
+			setFieldErrors(res.ok ? [] : data.fields ?? []);
+			if (res.ok) {
+				setResult(data);
+				// Show the weather the scores were computed from
+				setNasaData(data.environment);
+			}
 		} finally {
 			setLoading(false);
 		}
-	}, [fertilizer, irrigation, livestock, cropType, soilType, fetchNasa]);
+	}, [lat, lon, fertilizer, irrigation, livestock, cropType, soilType, farmingMethod, livestockSpecies, grazingStrategy, pestControl, economics, scenario, climate, irrigationSchedule, mode, rotationPlan, seed, provider, historicalYear]);
+
+	const runOptimizer = useCallback(async () => {
+		setOptimizing(true);
+		try {
+			const res = await fetch("/api/optimize", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					lat,
+					lon,
+					cropType,
+					soilType,
+					farmingMethod,
+					livestockSpecies,
+					grazingStrategy,
+					pestControl,
+					economics,
+					weights,
+					...(seed.trim() !== "" && { seed: Number(seed) }),
+					...(provider && { provider }),
+				}),
+			});
+			const data = await res.json();
+			setFieldErrors(res.ok ? [] : data.fields ?? []);
+			setOptimization(res.ok ? data : null);
+		} finally {
+			setOptimizing(false);
+		}
+	}, [lat, lon, cropType, soilType, farmingMethod, livestockSpecies, grazingStrategy, pestControl, economics, weights, seed, provider]);
+
+	const applyCandidate = useCallback((candidate: OptimizationCandidate) => {
+		setIrrigation(candidate.choices.irrigationMmPerDay);
+		setFertilizer(candidate.choices.fertilizerKgPerHa);
+		setLivestock(candidate.choices.livestockDensityPerHa);
+	}, []);
+
+	// The results page re-runs this farm, so the link carries the location and choices
+	const resultsHref = useMemo(() => {
+		const params = new URLSearchParams({
+			lat: String(lat),
+			lon: String(lon),
+			irrigationMmPerDay: String(irrigation),
+			fertilizerKgPerHa: String(fertilizer),
+			livestockDensityPerHa: String(livestock),
+			cropType,
+			soilType,
+			farmingMethod,
+			livestockSpecies,
+			grazingStrategy,
+			pestControl,
+			...(seed.trim() !== "" && { seed: seed.trim() }),
+			...(provider && { provider }),
+		});
+		return `/results?${params.toString()}`;
+	}, [lat, lon, irrigation, fertilizer, livestock, cropType, soilType, farmingMethod, livestockSpecies, grazingStrategy, pestControl, seed, provider]);
+
+	const updateRotationYear = useCallback((index: number, changes: Partial<RotationPlanYear>) => {
+		setRotationPlan((plan) => plan.map((year, i) => (i === index ? { ...year, ...changes } : year)));
+	}, []);
+
+	const updateIrrigationWindow = useCallback((index: number, changes: Partial<IrrigationWindow>) => {
+		setIrrigationSchedule((schedule) => schedule.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+	}, []);
 
 	return (
 		<div className={styles.container}>
@@ -87,6 +278,7 @@ export default function SimulatePage() {
 							/>
 						</div>
 					</div>
+					<FieldErrorMessages errors={fieldErrors} fields={["lat", "lon"]} />
 					<div className={styles.mapContainer}>
 						<LeafletMap center={mapCenter} zoom={6} onLocationSelect={handleLocationSelect} />
 					</div>
@@ -98,11 +290,14 @@ export default function SimulatePage() {
 					<div className={styles.controlGroup}>
 						<label>Crop Type</label>
 						<select value={cropType} onChange={(e) => setCropType(e.target.value)} className={styles.select}>
-							<option value="Corn">Corn</option>
-							<option value="Wheat">Wheat</option>
-							<option value="Soybeans">Soybeans</option>
-							<option value="Rice">Rice</option>
+							{crops.map((crop) => (
+								<option key={crop.name} value={crop.name}>{crop.name}</option>
+							))}
 						</select>
+						<div className={styles.tip}>
+							{crops.find((crop) => crop.name === cropType)?.description}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["cropType"]} />
 					</div>
 
 					<div className={styles.controlGroup}>
@@ -113,6 +308,20 @@ export default function SimulatePage() {
 							<option value="Sand">Sandy</option>
 							<option value="Silt">Silty</option>
 						</select>
+						<FieldErrorMessages errors={fieldErrors} fields={["soilType"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Farming Method</label>
+						<select value={farmingMethod} onChange={(e) => setFarmingMethod(e.target.value)} className={styles.select}>
+							{Object.values(FARMING_METHODS).map((method) => (
+								<option key={method.name} value={method.name}>{method.name}</option>
+							))}
+						</select>
+						<div className={styles.tip}>
+							{FARMING_METHODS[farmingMethod]?.description}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["farmingMethod"]} />
 					</div>
 
 					<div className={styles.controlGroup}>
@@ -131,6 +340,60 @@ export default function SimulatePage() {
 							 irrigation > 8 ? "⚠️ High irrigation - water waste risk" : 
 							 "✅ Good irrigation level"}
 						</div>
+						<div className={styles.rotationPlan}>
+							{irrigationSchedule.map((window, i) => (
+								<div key={i} className={styles.scheduleRow}>
+									<span>Days</span>
+									<input
+										type="number"
+										min={1}
+										value={window.startDay}
+										onChange={(e) => updateIrrigationWindow(i, { startDay: Number(e.target.value) })}
+										className={styles.select}
+									/>
+									<input
+										type="number"
+										min={1}
+										value={window.endDay}
+										onChange={(e) => updateIrrigationWindow(i, { endDay: Number(e.target.value) })}
+										className={styles.select}
+									/>
+									<input
+										type="number"
+										min={0}
+										max={15}
+										value={window.mmPerDay}
+										onChange={(e) => updateIrrigationWindow(i, { mmPerDay: Number(e.target.value) })}
+										className={styles.select}
+									/>
+									<span>mm/day</span>
+								</div>
+							))}
+							<div className={styles.rotationActions}>
+								<button
+									type="button"
+									onClick={() => setIrrigationSchedule((schedule) => {
+										const start = (schedule[schedule.length - 1]?.endDay ?? 0) + 1;
+										return [...schedule, { startDay: start, endDay: start + 29, mmPerDay: irrigation }];
+									})}
+								>
+									Add irrigation window
+								</button>
+								<button
+									type="button"
+									onClick={() => setIrrigationSchedule((schedule) => schedule.slice(0, -1))}
+									disabled={irrigationSchedule.length === 0}
+								>
+									Remove window
+								</button>
+							</div>
+						</div>
+						{irrigationSchedule.length > 0 && (
+							<div className={styles.tip}>
+								Season mode waters at these rates on those days after planting and at the daily rate otherwise
+							</div>
+						)}
+						<FieldErrorMessages errors={fieldErrors} fields={["irrigationMmPerDay", "irrigationSchedule"]} />
 					</div>
 
 					<div className={styles.controlGroup}>
@@ -149,10 +412,37 @@ export default function SimulatePage() {
 							 fertilizer > 25 ? "⚠️ High fertilizer - runoff risk" : 
 							 "✅ Moderate fertilizer use"}
 						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["fertilizerKgPerHa"]} />
 					</div>
 
 					<div className={styles.controlGroup}>
-						<label>Livestock: {livestock} animals per hectare</label>
+						<label>Livestock Species</label>
+						<select value={livestockSpecies} onChange={(e) => setLivestockSpecies(e.target.value)} className={styles.select}>
+							{Object.values(LIVESTOCK_SPECIES).map((species) => (
+								<option key={species.name} value={species.name}>{species.name}</option>
+							))}
+						</select>
+						<div className={styles.tip}>
+							{LIVESTOCK_SPECIES[livestockSpecies]?.description}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["livestockSpecies"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Grazing Strategy</label>
+						<select value={grazingStrategy} onChange={(e) => setGrazingStrategy(e.target.value)} className={styles.select}>
+							{Object.values(GRAZING_STRATEGIES).map((strategy) => (
+								<option key={strategy.name} value={strategy.name}>{strategy.name}</option>
+							))}
+						</select>
+						<div className={styles.tip}>
+							{GRAZING_STRATEGIES[grazingStrategy]?.description}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["grazingStrategy"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Livestock: {livestock} {livestockSpecies.toLowerCase()} per hectare</label>
 						<input 
 							type="range" 
 							min={0} 
@@ -164,15 +454,236 @@ export default function SimulatePage() {
 						/>
 						<div className={styles.tip}>
 							{livestock === 0 ? "No livestock - focus on crops only" :
-							 livestock > 4 ? "⚠️ High density - soil compaction risk" : 
+							 livestock * (LIVESTOCK_SPECIES[livestockSpecies]?.livestockUnits ?? 1) > 4 ? "⚠️ High density - soil compaction risk" : 
 							 "✅ Good livestock density"}
 						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["livestockDensityPerHa"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Pest Control</label>
+						<select value={pestControl} onChange={(e) => setPestControl(e.target.value)} className={styles.select}>
+							{Object.values(PEST_CONTROLS).map((control) => (
+								<option key={control.name} value={control.name}>{control.name}</option>
+							))}
+						</select>
+						<div className={styles.tip}>
+							{PEST_CONTROLS[pestControl]?.description}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["pestControl"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Farm Economics</label>
+						<select value={region} onChange={(e) => changeRegion(e.target.value)} className={styles.select}>
+							{Object.values(REGIONAL_PRESETS).map((preset) => (
+								<option key={preset.name} value={preset.name}>{preset.name}</option>
+							))}
+						</select>
+						<select value={currency} onChange={(e) => changeCurrency(e.target.value)} className={styles.select}>
+							{Object.values(CURRENCIES).map((c) => (
+								<option key={c.code} value={c.code}>{c.code} - {c.name}</option>
+							))}
+						</select>
+						<div className={styles.tip}>
+							{REGIONAL_PRESETS[region]?.description}
+						</div>
+						<div className={styles.costGrid}>
+							<label>
+								{cropType} price (per t)
+								<input
+									type="number"
+									min={0}
+									value={priceOverrides.cropPrices?.[cropType] ?? presetEconomics.cropPrices[cropType] ?? ""}
+									onChange={(e) => setPriceOverrides((o) => ({ ...o, cropPrices: { ...o.cropPrices, [cropType]: Number(e.target.value) } }))}
+									className={styles.select}
+								/>
+							</label>
+							<label>
+								Livestock income (per LU)
+								<input
+									type="number"
+									min={0}
+									value={priceOverrides.livestockRevenuePerLu ?? presetEconomics.livestockRevenuePerLu}
+									onChange={(e) => setPriceOverrides((o) => ({ ...o, livestockRevenuePerLu: Number(e.target.value) }))}
+									className={styles.select}
+								/>
+							</label>
+							{(Object.keys(COST_LABELS) as (keyof InputCosts)[]).map((item) => (
+								<label key={item}>
+									{COST_LABELS[item]}
+									<input
+										type="number"
+										min={0}
+										step="any"
+										value={priceOverrides.costs?.[item] ?? presetEconomics.costs[item]}
+										onChange={(e) => setPriceOverrides((o) => ({ ...o, costs: { ...o.costs, [item]: Number(e.target.value) } }))}
+										className={styles.select}
+									/>
+								</label>
+							))}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["economics"]} />
 					</div>
 
+					<div className={styles.controlGroup}>
+						<label>Stress Scenarios</label>
+						{Object.keys(SCENARIO_PRESETS).map((preset) => (
+							<label key={preset} className={styles.checkboxLabel}>
+								<input
+									type="checkbox"
+									checked={scenario.includes(preset)}
+									onChange={(e) => setScenario((names) =>
+										e.target.checked ? [...names, preset] : names.filter((name) => name !== preset))}
+								/>
+								{preset}
+							</label>
+						))}
+						<div className={styles.tip}>
+							{scenario.length === 0 ? "No extreme events - the season runs on observed weather" :
+							 scenario.map((name) => EVENT_EFFECTS[SCENARIO_PRESETS[name].type].description).join(". ")}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["scenario"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Climate Projection</label>
+						<select
+							value={climate?.pathway ?? ""}
+							onChange={(e) => setClimate(e.target.value ? { decade: 2050, ...climate, pathway: e.target.value } : null)}
+							className={styles.select}
+						>
+							<option value="">Present day only</option>
+							{Object.values(CLIMATE_PATHWAYS).map((pathway) => (
+								<option key={pathway.name} value={pathway.name}>{pathway.name} warming</option>
+							))}
+						</select>
+						{climate && (
+							<>
+								<select
+									value={climate.decade}
+									onChange={(e) => setClimate({ ...climate, decade: Number(e.target.value) })}
+									className={styles.select}
+								>
+									{PROJECTION_DECADES.map((decade) => (
+										<option key={decade} value={decade}>{decade}s</option>
+									))}
+								</select>
+								<select
+									value={climate.precipitationShift ?? "Global average"}
+									onChange={(e) => setClimate({ ...climate, precipitationShift: e.target.value })}
+									className={styles.select}
+								>
+									{Object.values(PRECIPITATION_SHIFTS).map((shift) => (
+										<option key={shift.name} value={shift.name}>{shift.name} rainfall</option>
+									))}
+								</select>
+							</>
+						)}
+						<div className={styles.tip}>
+							{climate ? `${CLIMATE_PATHWAYS[climate.pathway]?.description}. ${PRECIPITATION_SHIFTS[climate.precipitationShift ?? "Global average"]?.description}` :
+							 "Pick a warming pathway to score this farm in a future decade"}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["climate"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Random Seed (optional)</label>
+						<input
+							type="number"
+							value={seed}
+							onChange={(e) => setSeed(e.target.value)}
+							placeholder="Leave blank for a new draw each run"
+							className={styles.select}
+						/>
+						<FieldErrorMessages errors={fieldErrors} fields={["seed"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Data Provider</label>
+						<select value={provider} onChange={(e) => setProvider(e.target.value)} className={styles.select}>
+							<option value="">Server default</option>
+							{DATA_PROVIDER_NAMES.map((name) => (
+								<option key={name} value={name}>{name}</option>
+							))}
+						</select>
+						<div className={styles.tip}>
+							{provider ? DATA_PROVIDER_DESCRIPTIONS[provider] : "Whatever provider the server is configured to use"}
+						</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["provider"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Historical Year (optional)</label>
+						<input
+							type="number"
+							value={historicalYear}
+							onChange={(e) => setHistoricalYear(e.target.value)}
+							placeholder="Leave blank for this season"
+							className={styles.select}
+						/>
+						<div className={styles.tip}>Replays the weather recorded from planting to harvest in a past year</div>
+						<FieldErrorMessages errors={fieldErrors} fields={["historicalYear"]} />
+					</div>
+
+					<div className={styles.controlGroup}>
+						<label>Simulation Mode</label>
+						<select value={mode} onChange={(e) => setMode(e.target.value as SimulationMode)} className={styles.select}>
+							{Object.entries(MODE_LABELS).map(([value, label]) => (
+								<option key={value} value={value}>{label}</option>
+							))}
+						</select>
+						{mode === "rotation" && (
+							<div className={styles.rotationPlan}>
+								{rotationPlan.map((year, i) => (
+									<div key={i} className={styles.rotationRow}>
+										<span>Year {i + 1}</span>
+										<select
+											value={year.cropType}
+											onChange={(e) => updateRotationYear(i, { cropType: e.target.value })}
+											className={styles.select}
+										>
+											{crops.map(({ name: crop }) => (
+												<option key={crop} value={crop}>{crop}</option>
+											))}
+										</select>
+										<select
+											value={year.coverCrop ?? "None"}
+											onChange={(e) => updateRotationYear(i, { coverCrop: e.target.value })}
+											className={styles.select}
+										>
+											{Object.keys(COVER_CROPS).map((cover) => (
+												<option key={cover} value={cover}>{cover === "None" ? "No cover crop" : `${cover} cover`}</option>
+											))}
+										</select>
+									</div>
+								))}
+								<div className={styles.rotationActions}>
+									<button
+										type="button"
+										onClick={() => setRotationPlan((plan) => [...plan, { cropType: "Corn", coverCrop: "None" }])}
+										disabled={rotationPlan.length >= 8}
+									>
+										Add year
+									</button>
+									<button
+										type="button"
+										onClick={() => setRotationPlan((plan) => plan.slice(0, -1))}
+										disabled={rotationPlan.length <= 1}
+									>
+										Remove year
+									</button>
+								</div>
+							</div>
+						)}
+						<FieldErrorMessages errors={fieldErrors} fields={["mode", "rotation", "rotationYears"]} />
+					</div>
+
+					<FieldErrorMessages errors={fieldErrors} fields={GENERAL_FIELDS} />
 					<button onClick={runSim} disabled={loading} className={styles.button}>
 						{loading ? "Analyzing..." : "Run Analysis"}
 					</button>
-					<Link href="/results" className={styles.link}>
+					<Link href={resultsHref} className={styles.link}>
 						View Results
 					</Link>
 				</div>
@@ -181,6 +692,9 @@ export default function SimulatePage() {
 					<h3 className={styles.panelTitle}>Results</h3>
 					{result ? (
 						<div className={styles.results}>
+							<div className={styles.runInfo}>
+								Seed {result.seed} · {result.date?.slice(0, 10)} — enter this seed to replay the run
+							</div>
 							<div className={styles.scoreGrid}>
 								<div className={styles.scoreCard}>
 									<div className={styles.scoreLabel}>Crop Yield</div>
@@ -204,23 +718,182 @@ export default function SimulatePage() {
 								</div>
 							</div>
 
+							{result.budget && (
+								<div className={styles.runInfo}>
+									Profit {result.budget.currencySymbol}{Math.round(result.budget.profit).toLocaleString()}/ha ·
+									break-even {result.budget.breakEvenYieldTPerHa} t/ha · return on inputs {result.budget.returnOnInputs}%
+								</div>
+							)}
+
 							{nasaData && (
 								<div className={styles.nasaInfo}>
-									<h4>NASA Weather Data</h4>
+									<h4>NASA Weather Data ({nasaData.location?.lat.toFixed(2)}, {nasaData.location?.lon.toFixed(2)}{nasaData.site && ` · ${nasaData.site.climateZone}`})</h4>
 									<div className={styles.weatherGrid}>
 										<div className={styles.weatherItem}>
 											<span>Temperature:</span> {nasaData.data?.power?.temperature2m?.toFixed(1)}°C
+											<QualityMark provenance={nasaData.provenance?.power?.temperature2m} />
 										</div>
 										<div className={styles.weatherItem}>
 											<span>Rainfall:</span> {nasaData.data?.power?.precipitation?.toFixed(1)}mm
+											<QualityMark provenance={nasaData.provenance?.power?.precipitation} />
 										</div>
 										<div className={styles.weatherItem}>
 											<span>Soil Moisture:</span> {(nasaData.data?.smap?.soilMoistureRootZone * 100)?.toFixed(1)}%
+											<QualityMark provenance={nasaData.provenance?.smap?.soilMoistureRootZone} />
 										</div>
 										<div className={styles.weatherItem}>
 											<span>Vegetation Health:</span> {nasaData.data?.modis?.ndvi > 0.7 ? "Excellent" : nasaData.data?.modis?.ndvi > 0.5 ? "Good" : "Poor"}
+											<QualityMark provenance={nasaData.provenance?.modis?.ndvi} />
 										</div>
+										{nasaData.site && (
+											<div className={styles.weatherItem}>
+												<span>Seasonal Normal:</span> {nasaData.site.normalTempC}°C, {nasaData.site.normalPrecipitationMm}mm
+											</div>
+										)}
 									</div>
+									{nasaData.provider && (
+										<div className={styles.tip}>
+											Tagged values are estimated, recorded elsewhere, fallbacks or defaults; hover a tag for its source.
+											<br />
+											Provider {nasaData.provider.provider} · weather from {nasaData.provider.sources.power}
+											{nasaData.provider.cache.power && (nasaData.provider.cache.power.hit
+												? ` (cached ${Math.round(nasaData.provider.cache.power.ageSeconds / 60)} min ago)`
+												: " (fetched just now)")}
+											{nasaData.provider.fallbacks.map((f: ProviderFallback) => (
+												<div key={f.dataset} className={styles.fieldError}>
+													{f.dataset.toUpperCase()} fell back to synthetic data: {f.reason}
+												</div>
+											))}
+										</div>
+									)}
+									{nasaData.historicalSeason && (
+										<div className={styles.tip}>
+											{nasaData.historicalSeason.year} season, {nasaData.historicalSeason.start} to {nasaData.historicalSeason.end} · weather from {nasaData.historicalSeason.sources.weather}
+											{nasaData.historicalSeason.fallbacks.map((f: ProviderFallback) => (
+												<div key={f.dataset} className={styles.fieldError}>
+													Season weather fell back to synthetic data: {f.reason}
+												</div>
+											))}
+										</div>
+									)}
+								</div>
+							)}
+
+							{result.season && (
+								<div className={styles.rotationResults}>
+									<h4>Growing Season</h4>
+									<p>
+										{result.season.finalYieldTPerHa} t/ha harvested of {result.season.potentialYieldTPerHa} t/ha attainable
+										over {result.season.seasonDays} days
+									</p>
+									<p>
+										Rainfall {result.season.totals.rainfallMm} mm · irrigation {result.season.totals.irrigationMm} mm ·
+										drainage {result.season.totals.drainageMm} mm · runoff {result.season.totals.runoffMm} mm
+									</p>
+									<p>
+										Stress days: {result.season.stressDays.water} water, {result.season.stressDays.heat} heat,
+										{" "}{result.season.stressDays.waterlogging} waterlogging
+									</p>
+								</div>
+							)}
+
+							{result.rotation && (
+								<div className={styles.rotationResults}>
+									<h4>Rotation Results</h4>
+									<table>
+										<thead>
+											<tr>
+												<th>Year</th>
+												<th>Crop</th>
+												<th>Yield</th>
+												<th>Soil Health</th>
+												<th>Organic Matter</th>
+											</tr>
+										</thead>
+										<tbody>
+											{result.rotation.years.map((year: RotationYearResult) => (
+												<tr key={year.year}>
+													<td>{year.year}</td>
+													<td>{year.cropType}{year.coverCrop !== "None" ? ` + ${year.coverCrop}` : ""}</td>
+													<td>{year.yieldScore}</td>
+													<td>{year.soilHealthScore}</td>
+													<td>{year.soilHealthMetrics.organicMatter}%</td>
+												</tr>
+											))}
+										</tbody>
+									</table>
+									<p>
+										Average yield {result.rotation.averageYieldScore} vs {result.rotation.monoculture.averageYieldScore} for
+										continuous {result.rotation.monoculture.cropType}
+									</p>
+								</div>
+							)}
+
+							{result.scenario && (
+								<div className={styles.scenarioResults}>
+									<h4>Scenario Damage</h4>
+									<table>
+										<thead>
+											<tr>
+												<th>Event</th>
+												<th>Days</th>
+												<th>Yield Loss</th>
+												<th>Peak Stress</th>
+												<th>Recovery</th>
+											</tr>
+										</thead>
+										<tbody>
+											{result.scenario.events.map((event: ScenarioEventReport) => (
+												<tr key={event.name}>
+													<td>{event.name}</td>
+													<td>{event.startDay}-{event.endDay}</td>
+													<td>{event.yieldLossPercent}%</td>
+													<td>{event.peakStress}%</td>
+													<td>{event.recoveryDays === null ? "Not this season" : `${event.recoveryDays} days`}</td>
+												</tr>
+											))}
+										</tbody>
+									</table>
+									<p>
+										Season yield {result.scenario.stressedYieldTPerHa} t/ha vs {result.scenario.baselineYieldTPerHa} t/ha
+										without the events ({result.scenario.yieldLossPercent}% lost)
+									</p>
+								</div>
+							)}
+
+							{result.climate && (
+								<div className={styles.scenarioResults}>
+									<h4>
+										{result.climate.projection.pathway} in the {result.climate.projection.decade}s
+										({result.climate.projection.localWarmingC > 0 ? "+" : ""}{result.climate.projection.localWarmingC}°C locally,
+										rainfall {result.climate.projection.precipitationChangePercent > 0 ? "+" : ""}{result.climate.projection.precipitationChangePercent}%)
+									</h4>
+									<table>
+										<thead>
+											<tr>
+												<th>Score</th>
+												<th>Today</th>
+												<th>Projected</th>
+												{result.climate.adaptations.map((adaptation: ClimateAdaptation) => (
+													<th key={adaptation.action}>{adaptation.action}</th>
+												))}
+											</tr>
+										</thead>
+										<tbody>
+											{(Object.keys(CLIMATE_SCORE_LABELS) as ScoreKey[]).map((key) => (
+												<tr key={key}>
+													<td>{CLIMATE_SCORE_LABELS[key]}</td>
+													<td>{result.climate.presentScores[key]}</td>
+													<td>{result.climate.projectedScores[key]}</td>
+													{result.climate.adaptations.map((adaptation: ClimateAdaptation) => (
+														<td key={adaptation.action}>
+															{adaptation.projectedScores[key]} ({adaptation.scoreChange[key] >= 0 ? "+" : ""}{adaptation.scoreChange[key]})
+														</td>
+													))}
+												</tr>
+											))}
+										</tbody>
+									</table>
 								</div>
 							)}
 
@@ -252,17 +925,115 @@ export default function SimulatePage() {
 							{nasaData && (
 								<div className={styles.nasaPreview}>
 									<h4>Current Weather Conditions</h4>
-									<p>Temperature: {nasaData.data?.power?.temperature2m?.toFixed(1)}°C</p>
-									<p>Rainfall: {nasaData.data?.power?.precipitation?.toFixed(1)}mm</p>
-									<p>Soil Moisture: {(nasaData.data?.smap?.soilMoistureRootZone * 100)?.toFixed(1)}%</p>
+									<p>Temperature: {nasaData.data?.power?.temperature2m?.toFixed(1)}°C <QualityMark provenance={nasaData.provenance?.power?.temperature2m} /></p>
+									<p>Rainfall: {nasaData.data?.power?.precipitation?.toFixed(1)}mm <QualityMark provenance={nasaData.provenance?.power?.precipitation} /></p>
+									<p>Soil Moisture: {(nasaData.data?.smap?.soilMoistureRootZone * 100)?.toFixed(1)}% <QualityMark provenance={nasaData.provenance?.smap?.soilMoistureRootZone} /></p>
 								</div>
 							)}
 						</div>
 					)}
 				</div>
+
+				<div className={`${styles.panel} ${styles.widePanel}`}>
+					<h3 className={styles.panelTitle}>Management Optimizer</h3>
+					<div className={styles.optimizerGrid}>
+						<div>
+							{(Object.keys(OBJECTIVE_LABELS) as ObjectiveKey[]).map((key) => (
+								<div key={key} className={styles.controlGroup}>
+									<label>{OBJECTIVE_LABELS[key]} weight: {weights[key]}</label>
+									<input
+										type="range"
+										min={0}
+										max={5}
+										step={1}
+										value={weights[key]}
+										onChange={(e) => setWeights((w) => ({ ...w, [key]: Number(e.target.value) }))}
+										className={styles.slider}
+									/>
+									<FieldErrorMessages errors={fieldErrors} fields={[`weights.${key}`]} />
+								</div>
+							))}
+							<FieldErrorMessages errors={fieldErrors} fields={["weights"]} exact />
+							<button onClick={runOptimizer} disabled={optimizing} className={styles.button}>
+								{optimizing ? "Searching..." : "Find Best Settings"}
+							</button>
+						</div>
+
+						{optimization ? (
+							<div>
+								<div className={styles.optimizerBest}>
+									<div>
+										Best of {optimization.evaluated} combinations:{" "}
+										{optimization.best.choices.irrigationMmPerDay}mm/day irrigation,{" "}
+										{optimization.best.choices.fertilizerKgPerHa}kg/ha fertilizer,{" "}
+										{optimization.best.choices.livestockDensityPerHa} animals/ha
+									</div>
+									<button onClick={() => applyCandidate(optimization.best)}>Apply</button>
+								</div>
+								<div className={styles.paretoChart}>
+									<Scatter
+										data={{
+											datasets: [
+												{
+													label: "Pareto-optimal settings",
+													data: optimization.paretoFront.map((c) => ({ x: c.objectives.sustainability, y: c.objectives.yield })),
+													backgroundColor: "rgba(102, 126, 234, 0.8)",
+													pointRadius: 5,
+												},
+											],
+										}}
+										options={{
+											responsive: true,
+											maintainAspectRatio: false,
+											onClick: (_event: unknown, elements: ActiveElement[]) => {
+												if (elements.length > 0) applyCandidate(optimization.paretoFront[elements[0].index]);
+											},
+											plugins: {
+												tooltip: {
+													callbacks: {
+														label: (context) => {
+															const { choices, weightedScore } = optimization.paretoFront[context.dataIndex];
+															return `${choices.irrigationMmPerDay}mm, ${choices.fertilizerKgPerHa}kg, ${choices.livestockDensityPerHa} animals (score ${weightedScore})`;
+														},
+													},
+												},
+											},
+											scales: {
+												x: { title: { display: true, text: "Sustainability" } },
+												y: { title: { display: true, text: "Yield" } },
+											},
+										}}
+									/>
+								</div>
+								<div className={styles.tip}>Click any point to apply its settings to the sliders.</div>
+							</div>
+						) : (
+							<div className={styles.noResults}>
+								<p>Weight the goals that matter to you, then search every slider combination for the best trade-offs.</p>
+							</div>
+						)}
+					</div>
+				</div>
 			</div>
 		</div>
 	);
 }
 
+// Server-side validation messages for the request fields a control sets, nested fields included
+function FieldErrorMessages({ errors, fields, exact = false }: { errors: FieldError[]; fields: string[]; exact?: boolean }) {
+	const matching = errors.filter(({ field }) =>
+		fields.some((name) => field === name || (!exact && (field.startsWith(`${name}.`) || field.startsWith(`${name}[`)))));
+	return (
+		<>
+			{matching.map(({ field, message }) => (
+				<div key={`${field} ${message}`} className={styles.fieldError}>{field} {message}</div>
+			))}
+		</>
+	);
+}
 
+// Tag on any value that wasn't observed for this farm, with its source on hover
+function QualityMark({ provenance }: { provenance?: ValueProvenance }) {
+	const mark = qualityMark(provenance);
+	return mark ? <sup className={styles.qualityMark} title={qualityNote(provenance)}>{mark}</sup> : null;
+}
@@ -0,0 +1,119 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CacheStatus, DatasetKey } from "./types";
+
+export type CacheEntry = {
+	value: unknown;
+	storedAt: number; // ms since epoch
+};
+
+export type CacheStore = {
+	name: CacheStatus["store"];
+	get: (key: string) => Promise<CacheEntry | undefined>;
+	set: (key: string, entry: CacheEntry) => Promise<void>;
+};
+
+// How long each dataset stays current upstream: POWER weather updates hourly, MODIS composites every 16 days
+export const DATASET_TTL_SECONDS: Record<DatasetKey, number> = {
+	power: 60 * 60,
+	smap: 24 * 60 * 60,
+	modis: 16 * 24 * 60 * 60,
+	gpm: 30 * 60,
+	drought: 7 * 24 * 60 * 60
+};
+
+// Lookups within the same 0.1° cell (about 11 km) share an entry, well inside the POWER grid spacing
+export const CACHE_CELL_DEGREES = 0.1;
+const MAX_MEMORY_ENTRIES = 2000;
+
+// Least recently used entries go first once the store is full
+export function createMemoryStore(maxEntries = MAX_MEMORY_ENTRIES): CacheStore {
+	const entries = new Map<string, CacheEntry>();
+	return {
+		name: "memory",
+		get: async (key) => {
+			const entry = entries.get(key);
+			if (entry) {
+				entries.delete(key);
+				entries.set(key, entry);
+			}
+			return entry;
+		},
+		set: async (key, entry) => {
+			entries.delete(key);
+			entries.set(key, entry);
+			if (entries.size > maxEntries) entries.delete(entries.keys().next().value as string);
+		}
+	};
+}
+
+// One JSON file per entry; a failed read or write is treated as a miss so the cache never breaks a lookup
+export function createDiskStore(directory: string): CacheStore {
+	const fileFor = (key: string) => path.join(directory, `${createHash("sha1").update(key).digest("hex")}.json`);
+	return {
+		name: "disk",
+		get: async (key) => {
+			try {
+				return JSON.parse(await readFile(fileFor(key), "utf8")) as CacheEntry;
+			} catch {
+				return undefined;
+			}
+		},
+		set: async (key, entry) => {
+			try {
+				await mkdir(directory, { recursive: true });
+				await writeFile(fileFor(key), JSON.stringify(entry));
+			} catch {
+				// Disk is a best-effort second tier
+			}
+		}
+	};
+}
+
+// Ranged lookups pass an end date too
+export function cacheKey(source: string, dataset: DatasetKey, lat: number, lon: number, date: Date, end?: Date): string {
+	const cell = (degrees: number) => (Math.round(degrees / CACHE_CELL_DEGREES) * CACHE_CELL_DEGREES).toFixed(1);
+	const day = (d: Date) => d.toISOString().slice(0, 10);
+	return `${source}|${dataset}|${cell(lat)},${cell(lon)}|${day(date)}${end ? `..${day(end)}` : ""}`;
+}
+
+// Memory in front of the on-disk store, which is enabled by setting NASA_CACHE_DIR
+const stores: CacheStore[] = [
+	createMemoryStore(),
+	...(process.env.NASA_CACHE_DIR ? [createDiskStore(process.env.NASA_CACHE_DIR)] : [])
+];
+const inFlight = new Map<string, Promise<{ entry: CacheEntry; status: CacheStatus }>>();
+
+// The stored value while it's fresh, else a new load; concurrent identical lookups share one load
+export async function cachedLookup<T>(key: string, ttlSeconds: number, load: () => Promise<T>): Promise<{ value: T; status: CacheStatus }> {
+	const pending = inFlight.get(key);
+	if (pending) {
+		const { entry, status } = await pending;
+		return { value: structuredClone(entry.value) as T, status: { ...status, coalesced: true } };
+	}
+
+	const lookup = (async () => {
+		const now = Date.now();
+		for (const [i, store] of stores.entries()) {
+			const entry = await store.get(key);
+			if (entry && now - entry.storedAt < ttlSeconds * 1000) {
+				// Promote disk hits so the next lookup stays in memory
+				await Promise.all(stores.slice(0, i).map((faster) => faster.set(key, entry)));
+				return { entry, status: { hit: true, store: store.name, ageSeconds: Math.round((now - entry.storedAt) / 1000), ttlSeconds } };
+			}
+		}
+		const entry: CacheEntry = { value: await load(), storedAt: Date.now() };
+		await Promise.all(stores.map((store) => store.set(key, entry)));
+		return { entry, status: { hit: false, ageSeconds: 0, ttlSeconds } };
+	})();
+
+	inFlight.set(key, lookup);
+	try {
+		const { entry, status } = await lookup;
+		// Callers get their own copy so one can't alter what the next one reads
+		return { value: structuredClone(entry.value) as T, status };
+	} finally {
+		inFlight.delete(key);
+	}
+}
@@ -0,0 +1,122 @@
+import type { DatasetKey, DatasetMetadata, DatasetName } from "./types";
+
+// The upstream products each dataset stands for; the provider report says whether a response actually came from them
+export const DATASET_CATALOG: Record<DatasetName, DatasetMetadata> = {
+	power: {
+		name: "power",
+		title: "NASA POWER (Weather & Climate)",
+		description: "Daily near-surface meteorology from MERRA-2 reanalysis and CERES/GEWEX solar fluxes, averaged over the 30 days to the requested date",
+		units: {
+			temperature2m: "°C",
+			precipitation: "mm over 30 days",
+			solarRadiation: "W/m²",
+			humidity: "%",
+			windSpeed: "m/s"
+		},
+		spatialResolution: "0.5° × 0.625° (about 50 km)",
+		temporalResolution: "Daily",
+		temporalCoverage: "1981-01-01 to near real time",
+		documentation: "https://power.larc.nasa.gov/docs/"
+	},
+	smap: {
+		name: "smap",
+		title: "SMAP (Soil Moisture)",
+		description: "SMAP Level-4 surface and root-zone soil moisture from L-band radiometry assimilated into a land model",
+		units: {
+			soilMoistureSurface: "m³/m³ (0–5 cm)",
+			soilMoistureRootZone: "m³/m³ (0–100 cm)",
+			soilTemperature: "°C"
+		},
+		spatialResolution: "9 km",
+		temporalResolution: "3-hourly",
+		temporalCoverage: "2015-03-31 to present",
+		documentation: "https://nsidc.org/data/spl4smgp"
+	},
+	modis: {
+		name: "modis",
+		title: "MODIS (Vegetation Health)",
+		description: "MODIS Terra vegetation indices (MOD13Q1) and leaf area and absorbed PAR (MOD15A2H)",
+		units: {
+			ndvi: "index, -1 to 1",
+			evi: "index, -1 to 1",
+			lai: "m²/m²",
+			fpar: "fraction, 0 to 1"
+		},
+		spatialResolution: "250 m (NDVI, EVI); 500 m (LAI, FPAR)",
+		temporalResolution: "16-day composites (NDVI, EVI); 8-day (LAI, FPAR)",
+		temporalCoverage: "2000-02-18 to present",
+		documentation: "https://lpdaac.usgs.gov/products/mod13q1v061/"
+	},
+	gpm: {
+		name: "gpm",
+		title: "GPM (Precipitation)",
+		description: "GPM IMERG multi-satellite precipitation estimates",
+		units: {
+			precipitationRate: "mm/h",
+			precipitationAccumulation: "mm over 30 days"
+		},
+		spatialResolution: "0.1° (about 10 km)",
+		temporalResolution: "30 minutes",
+		temporalCoverage: "2000-06-01 to present",
+		documentation: "https://gpm.nasa.gov/data/imerg"
+	},
+	drought: {
+		name: "drought",
+		title: "U.S. Drought Monitor",
+		description: "Weekly drought classification blending precipitation, soil moisture, streamflow and expert review",
+		units: {
+			droughtIndex: "0 normal to 1 exceptional",
+			droughtCategory: "None or D0 to D4",
+			soilMoisturePercentile: "percentile"
+		},
+		spatialResolution: "Drawn polygons, contiguous U.S. and territories",
+		temporalResolution: "Weekly",
+		temporalCoverage: "2000-01-04 to present",
+		documentation: "https://droughtmonitor.unl.edu/"
+	},
+	derived: {
+		name: "derived",
+		title: "Derived Farm Metrics",
+		description: "Soil health, irrigation needs, crop stress and water balance computed from the other five datasets, with the insights and recommendations drawn from them",
+		units: {
+			"soilHealth.score": "0 to 100",
+			"irrigationNeeds.dailyRequirementMm": "mm/day",
+			"irrigationNeeds.weeklyRequirementMm": "mm/week",
+			"cropStress.overallStress": "0 to 100",
+			"waterBalance.inflowMmPerDay": "mm/day",
+			"waterBalance.outflowMmPerDay": "mm/day",
+			"waterBalance.netBalanceMmPerDay": "mm/day",
+			"waterBalance.soilStoragePercent": "% volumetric"
+		},
+		spatialResolution: "Coarsest of its inputs",
+		temporalResolution: "Same as its inputs",
+		temporalCoverage: "2015-03-31 to present, where every input overlaps"
+	}
+};
+
+export const DATASET_NAMES = Object.keys(DATASET_CATALOG) as DatasetName[];
+export const DATASET_KEYS = DATASET_NAMES.filter((name): name is DatasetKey => name !== "derived");
+// Shorthand for every dataset at once
+export const ALL_DATASETS = "comprehensive";
+
+export function listDatasets(): DatasetMetadata[] {
+	return Object.values(DATASET_CATALOG);
+}
+
+// Names in a comma list such as "power,smap", in catalog order; blank or "comprehensive" means all of them
+export function parseDatasetSelection(value?: string | null): DatasetName[] {
+	const requested = (value ?? ALL_DATASETS).split(",").map((name) => name.trim()).filter(Boolean);
+	if (requested.length === 0 || requested.includes(ALL_DATASETS)) return DATASET_NAMES;
+	return DATASET_NAMES.filter((name) => requested.includes(name));
+}
+
+// Names in a comma list that aren't datasets
+export function unknownDatasets(value?: string | null): string[] {
+	return (value ?? "").split(",").map((name) => name.trim())
+		.filter((name) => name !== "" && name !== ALL_DATASETS && !(DATASET_NAMES as string[]).includes(name));
+}
+
+// Just the named blocks of a response's data
+export function pickDatasets<T extends object>(data: T, datasets: DatasetName[]): Partial<T> {
+	return Object.fromEntries(Object.entries(data).filter(([name]) => (datasets as string[]).includes(name))) as Partial<T>;
+}
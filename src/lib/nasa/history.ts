@@ -0,0 +1,217 @@
+import { randomSeed } from "@/lib/random";
+import type { NasaDataResponse, SeasonWeatherDay } from "@/lib/simulation/types";
+import { cachedLookup, cacheKey, DATASET_TTL_SECONDS } from "./cache";
+import { adapterProvenance } from "./provenance";
+import { DATA_PROVIDERS, getDataProvider } from "./providers";
+import { describeSite, syntheticSoilAndVegetation } from "./syntheticClimate";
+import type {
+	CacheStatus,
+	DailyWeatherObservation,
+	DatasetRequest,
+	EnvironmentalHistory,
+	HistoryDay,
+	HistoryResolution,
+	HistorySeries,
+	ProviderFallback,
+	ValueProvenance
+} from "./types";
+
+export type HistoryOptions = {
+	start: Date;
+	end: Date;
+	resolution?: HistoryResolution;
+	seed?: number;
+	provider?: string;
+};
+
+export const HISTORY_RESOLUTIONS: HistoryResolution[] = ["daily", "weekly", "monthly"];
+// Five years of daily values, about 1,800 points, is as much as a chart can show
+export const MAX_HISTORY_DAYS = 5 * 366;
+// NASA POWER daily records begin in 1981
+export const FIRST_HISTORY_YEAR = 1981;
+
+const DAY_MS = 86400000;
+// The soil bucket and canopy start from a guess, so they run this long before the range to settle
+const SPIN_UP_DAYS = 60;
+// A provider must cover this share of the requested days, else the synthetic series stands in
+const MIN_COVERAGE = 0.8;
+
+// Daily weather, soil moisture and NDVI over a date range, rolled up to the requested resolution
+export async function fetchEnvironmentalHistory(
+	lat: number,
+	lon: number,
+	options: HistoryOptions
+): Promise<{ history: EnvironmentalHistory; days: HistoryDay[] }> {
+	const seed = options.seed ?? randomSeed();
+	const resolution = options.resolution ?? "daily";
+	const start = startOfDay(options.start);
+	const end = startOfDay(options.end);
+	const site = describeSite(lat, lon, end);
+	const provider = getDataProvider(options.provider);
+	const synthetic = DATA_PROVIDERS.synthetic;
+	const request: DatasetRequest = { lat, lon, date: end, seed, site };
+	const range = { start: new Date(start.getTime() - SPIN_UP_DAYS * DAY_MS), end };
+
+	const fallbacks: ProviderFallback[] = [];
+	let source = provider.history.source;
+	let weatherProvenance: ValueProvenance = adapterProvenance("power", provider.history, end);
+	let cache: CacheStatus | undefined;
+	let weather: DailyWeatherObservation[];
+	try {
+		if (provider.history.synthetic) {
+			weather = await provider.history.fetch(request, range);
+		} else {
+			const key = cacheKey(source, "power", lat, lon, range.start, range.end);
+			const lookup = await cachedLookup(key, DATASET_TTL_SECONDS.power, () => provider.history.fetch(request, range));
+			weather = lookup.value;
+			cache = lookup.status;
+		}
+		const covered = weather.filter((day) => day.date >= isoDay(start)).length;
+		const requested = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+		if (covered < MIN_COVERAGE * requested) {
+			throw new Error(`covers ${covered} of the ${requested} requested days`);
+		}
+	} catch (error) {
+		fallbacks.push({ dataset: "power", source, reason: error instanceof Error ? error.message : String(error) });
+		source = synthetic.history.source;
+		weatherProvenance = adapterProvenance("power", synthetic.history, end, true);
+		cache = undefined;
+		weather = await synthetic.history.fetch(request, range);
+	}
+
+	// No satellite history adapters yet, so moisture and greenness are modeled from the weather
+	const derived = syntheticSoilAndVegetation(site, weather);
+	const days = weather
+		.map((day, i): HistoryDay => ({ ...day, ...derived[i] }))
+		.filter((day) => day.date >= isoDay(start));
+
+	return {
+		history: {
+			location: { lat, lon },
+			start: isoDay(start),
+			end: isoDay(end),
+			resolution,
+			seed,
+			sources: { weather: source, soilMoisture: synthetic.smap.source, vegetation: synthetic.modis.source },
+			fallbacks,
+			...(cache && { cache }),
+			provenance: {
+				weather: weatherProvenance,
+				soilMoisture: adapterProvenance("smap", synthetic.smap, end),
+				vegetation: adapterProvenance("modis", synthetic.modis, end)
+			},
+			series: aggregateHistory(lat, lon, days, resolution)
+		},
+		days
+	};
+}
+
+// Days grouped into periods (weekly counts from the first day, monthly follows the calendar) next to the normals
+export function aggregateHistory(lat: number, lon: number, days: HistoryDay[], resolution: HistoryResolution): HistorySeries {
+	const periods = new Map<string, HistoryDay[]>();
+	days.forEach((day, i) => {
+		const period = resolution === "monthly" ? day.date.slice(0, 7) : resolution === "weekly" ? String(Math.floor(i / 7)) : day.date;
+		const members = periods.get(period);
+		if (members) members.push(day);
+		else periods.set(period, [day]);
+	});
+
+	const series: HistorySeries = {
+		periodStart: [],
+		periodEnd: [],
+		temperature2m: [],
+		precipitation: [],
+		solarRadiation: [],
+		soilMoistureRootZone: [],
+		ndvi: [],
+		normalTempC: [],
+		normalPrecipitationMm: []
+	};
+	periods.forEach((members) => {
+		const normals = members.map((day) => {
+			const date = new Date(day.date);
+			const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+			const site = describeSite(lat, lon, date);
+			return { temperature: site.normalTempC, rain: site.normalPrecipitationMm / daysInMonth };
+		});
+		series.periodStart.push(members[0].date);
+		series.periodEnd.push(members[members.length - 1].date);
+		series.temperature2m.push(round1(average(members.map((d) => d.temperature2m))));
+		series.precipitation.push(round1(sum(members.map((d) => d.precipitation))));
+		series.solarRadiation.push(Math.round(average(members.map((d) => d.solarRadiation))));
+		series.soilMoistureRootZone.push(round3(average(members.map((d) => d.soilMoistureRootZone))));
+		series.ndvi.push(round3(average(members.map((d) => d.ndvi))));
+		series.normalTempC.push(round1(average(normals.map((n) => n.temperature))));
+		series.normalPrecipitationMm.push(round1(sum(normals.map((n) => n.rain))));
+	});
+	return series;
+}
+
+// Present-day observations replaced by a past growing season: its averages for the snapshot, its days for the season model
+export function applyHistoricalSeason<T extends NasaDataResponse>(
+	nasaData: T,
+	{ history, days }: { history: EnvironmentalHistory; days: HistoryDay[] }
+): T {
+	if (days.length === 0) return nasaData;
+	const data = structuredClone(nasaData?.data ?? {});
+	const power = (data.power ??= {});
+	const smap = (data.smap ??= {});
+	const modis = (data.modis ??= {});
+	const gpm = (data.gpm ??= {});
+	const monthlyRainMm = average(days.map((d) => d.precipitation)) * 30;
+
+	power.temperature2m = average(days.map((d) => d.temperature2m));
+	power.precipitation = monthlyRainMm;
+	power.solarRadiation = average(days.map((d) => d.solarRadiation));
+	power.humidity = average(days.map((d) => d.humidity));
+	power.windSpeed = average(days.map((d) => d.windSpeed));
+	// The soil starts the season as wet as it was at planting
+	smap.soilMoistureRootZone = days[0].soilMoistureRootZone;
+	modis.ndvi = average(days.map((d) => d.ndvi));
+	gpm.precipitationAccumulation = monthlyRainMm;
+
+	// Days are numbered from planting by date, so a gap in the record doesn't shift the days after it
+	const seasonWeather: SeasonWeatherDay[] = days.map((d) => ({
+		day: Math.round((Date.parse(d.date) - Date.parse(history.start)) / DAY_MS) + 1,
+		date: d.date,
+		temperatureC: d.temperature2m,
+		rainfallMm: d.precipitation,
+		solarMj: d.solarRadiation * 0.0864 // W/m2 to MJ/m2/day
+	}));
+
+	// The replaced values now describe the past season
+	const provenance = structuredClone(nasaData.provenance ?? {});
+	const { weather, soilMoisture, vegetation } = history.provenance;
+	const powerProvenance = (provenance.power ??= {});
+	Object.keys(power).forEach((field) => {
+		powerProvenance[field] = { ...weather };
+	});
+	(provenance.smap ??= {}).soilMoistureRootZone = { ...soilMoisture };
+	(provenance.modis ??= {}).ndvi = { ...vegetation };
+	(provenance.gpm ??= {}).precipitationAccumulation = { ...weather };
+	return { ...nasaData, data, seasonWeather, provenance };
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function isoDay(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+function sum(values: number[]): number {
+	return values.reduce((total, v) => total + v, 0);
+}
+
+function average(values: number[]): number {
+	return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+function round3(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
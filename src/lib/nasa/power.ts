@@ -0,0 +1,128 @@
+import type { DailyWeatherObservation, WeatherObservations } from "./types";
+
+// Daily point data from the NASA POWER API: https://power.larc.nasa.gov/docs/services/api/temporal/daily/
+const POWER_DAILY_URL = "https://power.larc.nasa.gov/api/temporal/daily/point";
+const POWER_PARAMETERS = ["T2M", "PRECTOTCORR", "ALLSKY_SFC_SW_DWN", "RH2M", "WS2M"];
+// The month leading up to the requested date, matching the monthly totals the synthetic data reports
+export const POWER_WINDOW_DAYS = 30;
+const POWER_TIMEOUT_MS = 10000;
+// Fewer valid days than this and the month isn't representative
+const MIN_VALID_DAYS = 7;
+const DEFAULT_FILL_VALUE = -999;
+
+// One parameter's daily values, with fill values dropped
+export type PowerDailySeries = {
+	units: string;
+	values: { date: string; value: number }[];
+};
+
+// The month of weather leading up to a date
+export async function fetchPowerDaily(lat: number, lon: number, date: Date): Promise<WeatherObservations> {
+	const start = new Date(date.getTime() - (POWER_WINDOW_DAYS - 1) * 86400000);
+	return summarizePowerDaily(await requestPowerDaily(lat, lon, start, date));
+}
+
+// Day-by-day weather over a date range
+export async function fetchPowerDailyRange(lat: number, lon: number, start: Date, end: Date): Promise<DailyWeatherObservation[]> {
+	return powerDailyRecords(await requestPowerDaily(lat, lon, start, end));
+}
+
+async function requestPowerDaily(lat: number, lon: number, start: Date, end: Date): Promise<Record<string, PowerDailySeries>> {
+	const query = new URLSearchParams({
+		parameters: POWER_PARAMETERS.join(","),
+		community: "AG",
+		latitude: lat.toFixed(4),
+		longitude: lon.toFixed(4),
+		start: powerDate(start),
+		end: powerDate(end),
+		format: "JSON"
+	});
+
+	const response = await fetch(`${POWER_DAILY_URL}?${query}`, { signal: AbortSignal.timeout(POWER_TIMEOUT_MS) });
+	if (!response.ok) {
+		throw new Error(`NASA POWER returned ${response.status} ${response.statusText}`);
+	}
+	return parsePowerDaily(await response.json());
+}
+
+// Series for each parameter in a POWER daily JSON response (GeoJSON Feature with properties.parameter)
+export function parsePowerDaily(json: unknown): Record<string, PowerDailySeries> {
+	const body = json as {
+		properties?: { parameter?: Record<string, Record<string, unknown>> };
+		parameters?: Record<string, { units?: string }>;
+		header?: { fill_value?: number };
+		messages?: string[];
+	};
+	const parameter = body?.properties?.parameter;
+	if (!parameter || typeof parameter !== "object") {
+		const detail = body?.messages?.length ? `: ${body.messages.join("; ")}` : "";
+		throw new Error(`NASA POWER response has no daily parameters${detail}`);
+	}
+	const fillValue = body.header?.fill_value ?? DEFAULT_FILL_VALUE;
+
+	const series: Record<string, PowerDailySeries> = {};
+	Object.entries(parameter).forEach(([name, daily]) => {
+		series[name] = {
+			units: body.parameters?.[name]?.units ?? "",
+			values: Object.entries(daily ?? {})
+				.filter((entry): entry is [string, number] => typeof entry[1] === "number" && Number.isFinite(entry[1]) && entry[1] !== fillValue)
+				.map(([day, value]) => ({ date: day, value }))
+		};
+	});
+	return series;
+}
+
+// Month of daily values reduced to the weather fields the simulation reads
+export function summarizePowerDaily(series: Record<string, PowerDailySeries>): WeatherObservations {
+	const rainPerDay = mean(series, "PRECTOTCORR");
+	return {
+		temperature2m: mean(series, "T2M"),
+		precipitation: rainPerDay * POWER_WINDOW_DAYS,
+		solarRadiation: toWattsPerSquareMeter(mean(series, "ALLSKY_SFC_SW_DWN"), series.ALLSKY_SFC_SW_DWN.units),
+		humidity: mean(series, "RH2M"),
+		windSpeed: mean(series, "WS2M")
+	};
+}
+
+// One record per day that has every parameter; days with any fill value are left out
+export function powerDailyRecords(series: Record<string, PowerDailySeries>): DailyWeatherObservation[] {
+	const byDate = (name: string) => new Map((series[name]?.values ?? []).map((v) => [v.date, v.value]));
+	const temperature = byDate("T2M");
+	const rain = byDate("PRECTOTCORR");
+	const solar = byDate("ALLSKY_SFC_SW_DWN");
+	const humidity = byDate("RH2M");
+	const wind = byDate("WS2M");
+	const solarUnits = series.ALLSKY_SFC_SW_DWN?.units ?? "";
+
+	return [...temperature.keys()].sort()
+		.filter((day) => rain.has(day) && solar.has(day) && humidity.has(day) && wind.has(day))
+		.map((day) => ({
+			date: `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}`,
+			temperature2m: temperature.get(day) as number,
+			precipitation: rain.get(day) as number,
+			solarRadiation: toWattsPerSquareMeter(solar.get(day) as number, solarUnits),
+			humidity: humidity.get(day) as number,
+			windSpeed: wind.get(day) as number
+		}));
+}
+
+function mean(series: Record<string, PowerDailySeries>, name: string): number {
+	const values = series[name]?.values ?? [];
+	if (values.length < MIN_VALID_DAYS) {
+		throw new Error(`NASA POWER has ${values.length} valid days of ${name}, need at least ${MIN_VALID_DAYS}`);
+	}
+	return values.reduce((sum, v) => sum + v.value, 0) / values.length;
+}
+
+// Daily insolation arrives as energy per day; the simulation reads a daily mean flux
+function toWattsPerSquareMeter(value: number, units: string): number {
+	const normalized = units.replace(/\s/g, "").toLowerCase();
+	if (normalized.startsWith("mj/m^2/day")) return (value * 1e6) / 86400;
+	if (normalized.startsWith("kw-hr/m^2/day") || normalized.startsWith("kwh/m^2/day")) return (value * 1000) / 24;
+	if (normalized.startsWith("w/m^2")) return value;
+	throw new Error(`NASA POWER solar radiation in unsupported units "${units}"`);
+}
+
+function powerDate(date: Date): string {
+	return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
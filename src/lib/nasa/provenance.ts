@@ -0,0 +1,94 @@
+import { DATASET_CATALOG } from "./datasets";
+import type { DataProvenance, DatasetAdapter, DatasetName, QualityFlag, ValueProvenance } from "./types";
+
+// The synthetic model has no grid; it estimates each point from its latitude, longitude and season
+export const SYNTHETIC_RESOLUTION = "Point estimate from latitude, longitude and season";
+
+export const QUALITY_LABELS: Record<QualityFlag, string> = {
+	observed: "Observed for this location",
+	recorded: "Recorded at another place and time",
+	synthetic: "Estimated by the synthetic climate model",
+	fallback: "Estimated because the chosen source failed",
+	derived: "Calculated from other values",
+	default: "Assumed default; no data was available"
+};
+
+const QUALITY_MARKS: Record<QualityFlag, string | undefined> = {
+	observed: undefined,
+	recorded: "rec.",
+	synthetic: "est.",
+	fallback: "fallback",
+	derived: "calc.",
+	default: "default"
+};
+
+// Where one adapter's values came from; failed means a synthetic stand-in answered instead
+export function adapterProvenance(
+	dataset: DatasetName,
+	adapter: Pick<DatasetAdapter<unknown>, "source" | "synthetic" | "recordedAt">,
+	date: Date,
+	failed = false
+): ValueProvenance {
+	const quality: QualityFlag = failed ? "fallback" : adapter.recordedAt ? "recorded" : adapter.synthetic ? "synthetic" : "observed";
+	return {
+		source: adapter.source,
+		acquiredAt: adapter.recordedAt ?? date.toISOString().slice(0, 10),
+		spatialResolution: quality === "synthetic" || quality === "fallback" ? SYNTHETIC_RESOLUTION : DATASET_CATALOG[dataset].spatialResolution,
+		quality
+	};
+}
+
+// The same provenance for every value in a block, nested objects flattened to dotted fields
+export function describeValues(values: object, provenance: ValueProvenance): Record<string, ValueProvenance> {
+	return Object.fromEntries(leafPaths(values).map((path) => [path, { ...provenance }]));
+}
+
+// Provenance after a scenario or projection turned `before` into `after`: changed values name the adjustment,
+// and values it had to invent are flagged as defaults
+export function trackAdjustments(provenance: DataProvenance, before: object | undefined, after: object | undefined, adjustment: string): DataProvenance {
+	const tracked = structuredClone(provenance);
+	Object.entries(after ?? {}).forEach(([dataset, values]) => {
+		if (!values || typeof values !== "object") return;
+		const previous = (before as Record<string, object | undefined> | undefined)?.[dataset];
+		const entries = (tracked[dataset as DatasetName] ??= {});
+		leafPaths(values).forEach((path) => {
+			const was = valueAt(previous, path);
+			const now = valueAt(values, path);
+			if (was === undefined || !entries[path]) {
+				entries[path] = defaultProvenance(adjustment);
+			} else if (was !== now) {
+				entries[path] = { ...entries[path], adjustedBy: [...(entries[path].adjustedBy ?? []), adjustment] };
+			}
+		});
+	});
+	return tracked;
+}
+
+// A value the models assumed because nothing supplied it
+export function defaultProvenance(source: string): ValueProvenance {
+	return { source, spatialResolution: "None", quality: "default" };
+}
+
+// Short tag the pages show next to a value; untouched observations go unmarked
+export function qualityMark(provenance?: ValueProvenance): string | undefined {
+	if (!provenance) return undefined;
+	return QUALITY_MARKS[provenance.quality] ?? (provenance.adjustedBy ? "adj." : undefined);
+}
+
+// Tooltip text for anything less than an observation, else undefined
+export function qualityNote(provenance?: ValueProvenance): string | undefined {
+	if (!provenance || (provenance.quality === "observed" && !provenance.adjustedBy)) return undefined;
+	const adjusted = provenance.adjustedBy ? `; adjusted by ${provenance.adjustedBy.join(", ")}` : "";
+	const when = provenance.acquiredAt ? ` (${provenance.acquiredAt})` : "";
+	return `${QUALITY_LABELS[provenance.quality]}: ${provenance.source}${when}, ${provenance.spatialResolution}${adjusted}`;
+}
+
+function leafPaths(values: object, prefix = ""): string[] {
+	return Object.entries(values).flatMap(([key, value]) =>
+		value && typeof value === "object" && !Array.isArray(value) ? leafPaths(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+	);
+}
+
+function valueAt(values: object | undefined, path: string): unknown {
+	return path.split(".").reduce<unknown>((node, key) => (node && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined), values);
+}
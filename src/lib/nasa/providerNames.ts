@@ -0,0 +1,10 @@
+// Provider names and blurbs without the adapters and fixtures behind them, so client pages can offer the choice
+export const DATA_PROVIDER_DESCRIPTIONS: Record<string, string> = {
+	synthetic: "Deterministic synthetic climate by location and season; works offline",
+	nasa: "Live NASA POWER daily weather; satellite datasets stay synthetic until their adapters are written",
+	local: "Recorded fixtures (Ames, Iowa, June 2024) for offline development and tests"
+};
+
+export const DATA_PROVIDER_NAMES = Object.keys(DATA_PROVIDER_DESCRIPTIONS);
+
+export const DEFAULT_DATA_PROVIDER = "synthetic";
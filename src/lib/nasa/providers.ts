@@ -0,0 +1,71 @@
+import { createRandom, deriveSeed } from "@/lib/random";
+import powerFixture from "./fixtures/powerDaily.json";
+import satelliteFixture from "./fixtures/satellite.json";
+import { fetchPowerDaily, fetchPowerDailyRange, parsePowerDaily, powerDailyRecords, summarizePowerDaily } from "./power";
+import { DATA_PROVIDER_DESCRIPTIONS, DEFAULT_DATA_PROVIDER } from "./providerNames";
+import {
+	syntheticDailyWeather,
+	syntheticDrought,
+	syntheticPrecipitation,
+	syntheticSoilMoisture,
+	syntheticVegetation,
+	syntheticWeather
+} from "./syntheticClimate";
+import type { DataProvider, DatasetKey, DatasetRequest } from "./types";
+
+const SYNTHETIC_SOURCE = "Synthetic climate model";
+// Last day of the recorded fixtures
+const FIXTURE_DATE = "2024-06-30";
+
+// Each dataset draws from its own stream, so swapping one for real data leaves the others unchanged
+const streamFor = (request: DatasetRequest, dataset: DatasetKey) => createRandom(deriveSeed(request.seed, dataset));
+
+const SYNTHETIC_PROVIDER: DataProvider = {
+	name: "synthetic",
+	description: DATA_PROVIDER_DESCRIPTIONS.synthetic,
+	power: { source: SYNTHETIC_SOURCE, synthetic: true, fetch: async (r) => syntheticWeather(r.site, r.lat, streamFor(r, "power")) },
+	smap: { source: SYNTHETIC_SOURCE, synthetic: true, fetch: async (r, weather) => syntheticSoilMoisture(weather, streamFor(r, "smap")) },
+	modis: { source: SYNTHETIC_SOURCE, synthetic: true, fetch: async (r, weather) => syntheticVegetation(r.site, weather, streamFor(r, "modis")) },
+	gpm: { source: SYNTHETIC_SOURCE, synthetic: true, fetch: async (r, weather) => syntheticPrecipitation(weather, streamFor(r, "gpm")) },
+	drought: { source: SYNTHETIC_SOURCE, synthetic: true, fetch: async (r, weather) => syntheticDrought(r.site, weather, streamFor(r, "drought")) },
+	history: { source: SYNTHETIC_SOURCE, synthetic: true, fetch: async (r, range) => syntheticDailyWeather(r.lat, r.lon, range, r.seed) }
+};
+
+export const DATA_PROVIDERS: Record<string, DataProvider> = {
+	synthetic: SYNTHETIC_PROVIDER,
+	nasa: {
+		name: "nasa",
+		description: DATA_PROVIDER_DESCRIPTIONS.nasa,
+		power: { source: "NASA POWER daily API", fetch: (r) => fetchPowerDaily(r.lat, r.lon, r.date) },
+		smap: SYNTHETIC_PROVIDER.smap,
+		modis: SYNTHETIC_PROVIDER.modis,
+		gpm: SYNTHETIC_PROVIDER.gpm,
+		drought: SYNTHETIC_PROVIDER.drought,
+		history: { source: "NASA POWER daily API", fetch: (r, range) => fetchPowerDailyRange(r.lat, r.lon, range.start, range.end) }
+	},
+	// Same answer for every location and date, so offline tests have fixed inputs
+	local: {
+		name: "local",
+		description: DATA_PROVIDER_DESCRIPTIONS.local,
+		power: { source: "Local fixture: NASA POWER daily", recordedAt: FIXTURE_DATE, fetch: async () => summarizePowerDaily(parsePowerDaily(powerFixture)) },
+		smap: { source: "Local fixture: SMAP", recordedAt: FIXTURE_DATE, fetch: async () => ({ ...satelliteFixture.smap }) },
+		modis: { source: "Local fixture: MODIS", recordedAt: FIXTURE_DATE, fetch: async () => ({ ...satelliteFixture.modis }) },
+		gpm: { source: "Local fixture: GPM", recordedAt: FIXTURE_DATE, fetch: async () => ({ ...satelliteFixture.gpm }) },
+		drought: { source: "Local fixture: Drought Monitor", recordedAt: FIXTURE_DATE, fetch: async () => ({ ...satelliteFixture.drought }) },
+		history: {
+			source: "Local fixture: NASA POWER daily",
+			recordedAt: FIXTURE_DATE,
+			fetch: async (_r, range) => powerDailyRecords(parsePowerDaily(powerFixture))
+				.filter((day) => day.date >= isoDay(range.start) && day.date <= isoDay(range.end))
+		}
+	}
+};
+
+// The provider a request names, else the NASA_DATA_PROVIDER setting, else synthetic
+export function getDataProvider(name?: string): DataProvider {
+	return DATA_PROVIDERS[name ?? process.env.NASA_DATA_PROVIDER ?? ""] ?? DATA_PROVIDERS[DEFAULT_DATA_PROVIDER];
+}
+
+function isoDay(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,333 @@
+import { createRandom, deriveSeed, type Random } from "@/lib/random";
+import type {
+	DailyWeatherObservation,
+	DateRange,
+	DroughtObservations,
+	PrecipitationObservations,
+	SoilMoistureObservations,
+	VegetationObservations,
+	WeatherObservations
+} from "./types";
+
+export type ClimateZone = "Tropical" | "Arid" | "Temperate" | "Boreal" | "Polar";
+
+// Where a point sits in the synthetic climate and why its values look the way they do
+export type SiteClimate = {
+	climateZone: ClimateZone;
+	hemisphere: "Northern" | "Southern";
+	dayOfYear: number;
+	elevationProxyM: number;
+	aridityIndex: number; // 0 wet to 1 desert
+	continentality: number; // 0 maritime to 1 deep continental interior
+	annualMeanTempC: number;
+	annualPrecipitationMm: number;
+	normalTempC: number; // long-term normal for this day of year, before the weather anomaly
+	normalPrecipitationMm: number; // long-term normal for this month
+};
+
+// A smooth bump in one of the climate proxies, centered on a region
+type Anchor = { lat: number; lon: number; sigmaLat: number; sigmaLon: number; value: number };
+
+// Major highlands; everywhere else sits near sea level
+const HIGHLANDS: Anchor[] = [
+	{ lat: 33, lon: 86, sigmaLat: 3.5, sigmaLon: 10, value: 4700 }, // Tibetan Plateau
+	{ lat: -15, lon: -69, sigmaLat: 14, sigmaLon: 3, value: 3500 }, // Andes
+	{ lat: 40, lon: -108, sigmaLat: 9, sigmaLon: 5, value: 2000 }, // Rocky Mountains
+	{ lat: 23, lon: -102, sigmaLat: 5, sigmaLon: 4, value: 1800 }, // Mexican Plateau
+	{ lat: 9, lon: 39, sigmaLat: 4, sigmaLon: 4, value: 2200 }, // Ethiopian Highlands
+	{ lat: -2, lon: 35, sigmaLat: 6, sigmaLon: 5, value: 1500 }, // East African Plateau
+	{ lat: 33, lon: 55, sigmaLat: 5, sigmaLon: 8, value: 1200 }, // Iranian Plateau
+	{ lat: 46.6, lon: 10, sigmaLat: 1.2, sigmaLon: 3.5, value: 1200 }, // Alps
+	{ lat: -80, lon: 0, sigmaLat: 10, sigmaLon: 360, value: 2500 } // Antarctic ice sheet
+];
+
+// Regions drier (positive) or wetter (negative) than their latitude alone suggests
+const ARIDITY_ANCHORS: Anchor[] = [
+	{ lat: 23, lon: 12, sigmaLat: 7, sigmaLon: 22, value: 0.55 }, // Sahara
+	{ lat: 23, lon: 47, sigmaLat: 6, sigmaLon: 9, value: 0.5 }, // Arabian Desert
+	{ lat: 42, lon: 80, sigmaLat: 7, sigmaLon: 22, value: 0.4 }, // Central Asian and Gobi deserts
+	{ lat: -25, lon: 133, sigmaLat: 7, sigmaLon: 11, value: 0.45 }, // Australian Outback
+	{ lat: -17, lon: -75, sigmaLat: 9, sigmaLon: 3, value: 0.6 }, // Atacama and the Peruvian coast
+	{ lat: -23, lon: 20, sigmaLat: 5, sigmaLon: 6, value: 0.3 }, // Kalahari
+	{ lat: 33, lon: -113, sigmaLat: 6, sigmaLon: 6, value: 0.35 }, // North American deserts
+	{ lat: 6, lon: 45, sigmaLat: 7, sigmaLon: 10, value: 0.6 }, // Horn of Africa
+	{ lat: -4, lon: -62, sigmaLat: 10, sigmaLon: 12, value: -0.45 }, // Amazon
+	{ lat: 0, lon: 22, sigmaLat: 7, sigmaLon: 9, value: -0.4 }, // Congo Basin
+	{ lat: 2, lon: 110, sigmaLat: 12, sigmaLon: 22, value: -0.45 }, // Maritime Southeast Asia
+	{ lat: 22, lon: 85, sigmaLat: 8, sigmaLon: 12, value: -0.25 }, // Monsoon India and Bangladesh
+	{ lat: 35, lon: -82, sigmaLat: 8, sigmaLon: 10, value: -0.35 }, // Eastern United States
+	{ lat: 30, lon: 115, sigmaLat: 8, sigmaLon: 10, value: -0.3 }, // Southern China
+	{ lat: -30, lon: 152, sigmaLat: 6, sigmaLon: 4, value: -0.4 }, // Eastern Australian coast
+	{ lat: -30, lon: -56, sigmaLat: 9, sigmaLon: 8, value: -0.35 } // Southeastern South America
+];
+
+// Continental interiors far from moderating oceans
+const CONTINENTAL_ANCHORS: Anchor[] = [
+	{ lat: 60, lon: 105, sigmaLat: 14, sigmaLon: 35, value: 1 }, // Siberia
+	{ lat: 50, lon: -100, sigmaLat: 12, sigmaLon: 20, value: 0.8 }, // North American interior
+	{ lat: 45, lon: 70, sigmaLat: 12, sigmaLon: 20, value: 0.7 }, // Central Asia
+	{ lat: 22, lon: 15, sigmaLat: 8, sigmaLon: 20, value: 0.5 }, // Saharan interior
+	{ lat: -24, lon: 133, sigmaLat: 7, sigmaLon: 10, value: 0.4 }, // Australian interior
+	{ lat: 50, lon: 5, sigmaLat: 10, sigmaLon: 25, value: -0.35 } // Western Europe, kept mild by westerlies off the Atlantic
+];
+
+// Ocean currents that warm (positive) or cool (negative) nearby land, degrees C
+const OCEAN_CURRENT_ANCHORS: Anchor[] = [
+	{ lat: 55, lon: 10, sigmaLat: 10, sigmaLon: 25, value: 4 }, // North Atlantic Drift
+	{ lat: -20, lon: -72, sigmaLat: 10, sigmaLon: 4, value: -3 }, // Humboldt Current
+	{ lat: 33, lon: -120, sigmaLat: 6, sigmaLon: 3, value: -2 }, // California Current
+	{ lat: -22, lon: 13, sigmaLat: 8, sigmaLon: 3, value: -3 } // Benguela Current
+];
+
+// Coasts where rain falls in winter and summers stay dry
+const MEDITERRANEAN_ANCHORS: Anchor[] = [
+	{ lat: 38, lon: 15, sigmaLat: 5, sigmaLon: 15, value: 1 }, // Mediterranean Basin
+	{ lat: 37, lon: -121, sigmaLat: 5, sigmaLon: 3, value: 1 }, // California
+	{ lat: -33, lon: -71, sigmaLat: 4, sigmaLon: 3, value: 1 }, // Central Chile
+	{ lat: -34, lon: 19, sigmaLat: 3, sigmaLon: 3, value: 1 }, // Western Cape
+	{ lat: -33, lon: 117, sigmaLat: 4, sigmaLon: 5, value: 1 } // Southwest Australia
+];
+
+const SOLAR_CONSTANT_W_M2 = 1361;
+const DAY_MS = 86400000;
+const LAPSE_RATE_C_PER_M = 0.0065;
+// Day of year the warmest weather arrives, about a month after the solstice
+const NORTHERN_PEAK_DAY = 200;
+const SOUTHERN_PEAK_DAY = 17;
+// Warm and cold spells last about a week, so temperature anomalies are drawn weekly and blended between
+const ANOMALY_SPELL_DAYS = 7;
+// Root-zone bucket the daily soil moisture fills and drains
+const BUCKET_CAPACITY_MM = 150;
+// Days NDVI takes to close most of the gap to what the weather supports, about one MODIS composite
+const GREENING_DAYS = 16;
+
+// Long-term climate of a point: the same lat/lon and day of year always give the same answer
+export function describeSite(lat: number, lon: number, date: Date): SiteClimate {
+	const absLat = Math.abs(lat);
+	const dayOfYear = getDayOfYear(date);
+	const hemisphere = lat >= 0 ? "Northern" : "Southern";
+	const elevationProxyM = Math.round(anchorSum(HIGHLANDS, lat, lon, true));
+	const continentality = clamp(0.2 + anchorSum(CONTINENTAL_ANCHORS, lat, lon), 0, 1);
+	// Subtropical high-pressure belts dry out the 15-35 degree latitudes; the rising air of the tropics and storm tracks wet the rest
+	const latitudeAridity = 0.15 + 0.45 * gaussian(absLat, 25, 9) - 0.15 * gaussian(absLat, 0, 8);
+	const aridityIndex = clamp(latitudeAridity + 0.1 * continentality + anchorSum(ARIDITY_ANCHORS, lat, lon), 0, 1);
+
+	// Sea-level mean falls away from the equator; deserts run hot, continental interiors and highlands cold
+	const annualMeanTempC = 27 - 0.0075 * absLat * absLat + 3 * aridityIndex * gaussian(absLat, 22, 12) -
+		6 * continentality * clamp((absLat - 25) / 30, 0, 1) + anchorSum(OCEAN_CURRENT_ANCHORS, lat, lon) -
+		LAPSE_RATE_C_PER_M * elevationProxyM;
+	const seasonalAmplitudeC = 1 + absLat * (0.12 + 0.3 * continentality);
+	const seasonalPhase = Math.cos((2 * Math.PI * (dayOfYear - (hemisphere === "Northern" ? NORTHERN_PEAK_DAY : SOUTHERN_PEAK_DAY))) / 365);
+	const normalTempC = annualMeanTempC + seasonalAmplitudeC * seasonalPhase;
+
+	// The equatorial rain belt is wettest; cold air holds little moisture, so rainfall thins out toward the poles
+	const latitudeRainMm = (1100 + 1500 * gaussian(absLat, 0, 9)) * Math.exp(-Math.max(0, absLat - 50) / 20);
+	const annualPrecipitationMm = 20 + latitudeRainMm * (1 - aridityIndex) ** 2;
+	// Tropical monsoons rain in summer, Mediterranean coasts in winter
+	const rainSeasonality = 0.85 * gaussian(absLat, 15, 10) + 0.2 - 1.1 * Math.min(1, anchorSum(MEDITERRANEAN_ANCHORS, lat, lon));
+	const normalPrecipitationMm = Math.max(0, (annualPrecipitationMm / 12) * (1 + clamp(rainSeasonality, -0.9, 0.9) * seasonalPhase));
+
+	const coldestC = annualMeanTempC - seasonalAmplitudeC;
+	const warmestC = annualMeanTempC + seasonalAmplitudeC;
+
+	return {
+		climateZone: classifyZone(annualMeanTempC, coldestC, warmestC, annualPrecipitationMm),
+		hemisphere,
+		dayOfYear,
+		elevationProxyM,
+		aridityIndex: round2(aridityIndex),
+		continentality: round2(continentality),
+		annualMeanTempC: round1(annualMeanTempC),
+		annualPrecipitationMm: Math.round(annualPrecipitationMm),
+		normalTempC: round1(normalTempC),
+		normalPrecipitationMm: round1(normalPrecipitationMm)
+	};
+}
+
+// This month's weather: the site's normals plus a seeded anomaly
+export function syntheticWeather(site: SiteClimate, lat: number, random: Random): WeatherObservations {
+	const temperatureAnomaly = normal(random) * 1.5;
+	// Rainfall anomalies are skewed: a dry month can't go below zero but a wet one can double the normal
+	const rainAnomaly = Math.exp(normal(random) * 0.45 - 0.1);
+
+	const temperature2m = site.normalTempC + temperatureAnomaly;
+	const precipitation = site.normalPrecipitationMm * rainAnomaly;
+	const clearness = clamp(0.75 - 0.0018 * precipitation - 0.15 * (1 - site.aridityIndex), 0.3, 0.78);
+
+	return {
+		temperature2m,
+		precipitation,
+		solarRadiation: dailyTopOfAtmosphere(lat, site.dayOfYear) * clearness * (0.95 + random() * 0.1),
+		humidity: clamp(30 + 55 * (1 - site.aridityIndex) + 0.04 * precipitation + (random() - 0.5) * 10, 8, 98),
+		windSpeed: 2 + 3 * Math.abs(Math.sin((lat * Math.PI) / 180)) + random() * 1.5
+	};
+}
+
+export function syntheticSoilMoisture(weather: WeatherObservations, random: Random): SoilMoistureObservations {
+	const moistureRatio = moistureSupply(weather);
+	const soilMoistureRootZone = clamp(0.06 + 0.36 * (1 - Math.exp(-1.3 * moistureRatio)) + (random() - 0.5) * 0.03, 0.04, 0.48);
+
+	return {
+		soilMoistureSurface: clamp(soilMoistureRootZone * (0.85 + 0.3 * Math.min(1, moistureRatio)) + (random() - 0.5) * 0.03, 0.03, 0.5),
+		soilMoistureRootZone,
+		soilTemperature: weather.temperature2m + 1 + (random() - 0.5)
+	};
+}
+
+export function syntheticVegetation(site: SiteClimate, weather: WeatherObservations, random: Random): VegetationObservations {
+	// Green-up needs both water and warmth; frozen or parched ground stays brown
+	const greenness = (1 - Math.exp(-2 * (1 - site.aridityIndex) - moistureSupply(weather))) * clamp((weather.temperature2m - 2) / 14, 0, 1);
+	const ndvi = clamp(0.08 + 0.8 * greenness + (random() - 0.5) * 0.04, 0.02, 0.92);
+
+	return {
+		ndvi,
+		evi: ndvi * 0.65,
+		lai: 6 * ndvi * ndvi,
+		fpar: clamp(1.1 * ndvi - 0.05, 0, 0.95)
+	};
+}
+
+export function syntheticPrecipitation(weather: WeatherObservations, random: Random): PrecipitationObservations {
+	return {
+		// Warm climates rain in short convective bursts, cool ones in long steady fronts
+		precipitationRate: 0.5 + weather.precipitation * (weather.temperature2m > 20 ? 0.02 : 0.008),
+		precipitationAccumulation: weather.precipitation * (0.9 + random() * 0.2)
+	};
+}
+
+// How far this month sits below the local normal, not how dry the climate is
+export function syntheticDrought(site: SiteClimate, weather: WeatherObservations, random: Random): DroughtObservations {
+	const rainAnomaly = Math.log((weather.precipitation + 1) / (site.normalPrecipitationMm + 1));
+	const droughtIndex = clamp(0.15 - 0.45 * rainAnomaly + (random() - 0.5) * 0.1, 0, 1);
+
+	return {
+		droughtIndex,
+		droughtCategory: getDroughtCategory(droughtIndex),
+		soilMoisturePercentile: clamp(50 + 35 * rainAnomaly / 0.45, 1, 99)
+	};
+}
+
+// Day-by-day weather over a range; each day depends only on the seed and its date, so overlapping ranges agree
+export function syntheticDailyWeather(lat: number, lon: number, range: DateRange, seed: number): DailyWeatherObservation[] {
+	const spellAnomaly = (spell: number) => normal(createRandom(deriveSeed(seed, `temperature-${spell}`))) * 1.5;
+	const days: DailyWeatherObservation[] = [];
+
+	for (let time = Math.floor(range.start.getTime() / DAY_MS) * DAY_MS; time <= range.end.getTime(); time += DAY_MS) {
+		const date = new Date(time);
+		const site = describeSite(lat, lon, date);
+		const epochDay = time / DAY_MS;
+		const random = createRandom(deriveSeed(seed, `day-${epochDay}`));
+
+		const spell = Math.floor(epochDay / ANOMALY_SPELL_DAYS);
+		const blend = (epochDay % ANOMALY_SPELL_DAYS) / ANOMALY_SPELL_DAYS;
+		const temperature2m = site.normalTempC + spellAnomaly(spell) * (1 - blend) + spellAnomaly(spell + 1) * blend + normal(random);
+
+		// Each month gets one wetness anomaly, as in the monthly data; wet days come more often in the rainy season
+		const month = date.toISOString().slice(0, 7);
+		const rainAnomaly = Math.exp(normal(createRandom(deriveSeed(seed, `rain-${month}`))) * 0.45 - 0.1);
+		const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+		const meanRainMm = (site.normalPrecipitationMm * rainAnomaly) / daysInMonth;
+		const wetProbability = clamp(0.1 + meanRainMm / 8, 0.05, 0.7);
+		const wet = random() < wetProbability;
+		const clearness = clamp((wet ? 0.45 : 0.72) - 0.1 * (1 - site.aridityIndex) + (random() - 0.5) * 0.1, 0.2, 0.8);
+
+		days.push({
+			date: date.toISOString().slice(0, 10),
+			temperature2m,
+			precipitation: wet ? (-Math.log(1 - random()) * meanRainMm) / wetProbability : 0,
+			solarRadiation: dailyTopOfAtmosphere(lat, site.dayOfYear) * clearness,
+			humidity: clamp(30 + 55 * (1 - site.aridityIndex) + (wet ? 10 : 0) + (random() - 0.5) * 10, 8, 100),
+			windSpeed: 2 + 3 * Math.abs(Math.sin((lat * Math.PI) / 180)) + random() * 1.5
+		});
+	}
+	return days;
+}
+
+// Root-zone moisture from a daily bucket, and NDVI that greens and browns with it
+export function syntheticSoilAndVegetation(site: SiteClimate, days: DailyWeatherObservation[]): { soilMoistureRootZone: number; ndvi: number }[] {
+	// Deserts start dry, so the spin-up doesn't have to drain a wet bucket
+	let storageMm = (BUCKET_CAPACITY_MM / 2) * (1 - site.aridityIndex);
+	let ndvi: number | undefined;
+
+	return days.map((day) => {
+		const referenceEtMm = Math.max(0, 0.0135 * (day.temperature2m + 17.8) * ((day.solarRadiation * 0.0864) / 2.45));
+		// Plants draw less as the soil dries; rain past capacity drains away
+		storageMm = clamp(storageMm + day.precipitation - referenceEtMm * (storageMm / BUCKET_CAPACITY_MM), 0, BUCKET_CAPACITY_MM);
+		const fill = storageMm / BUCKET_CAPACITY_MM;
+
+		const supported = 0.08 + 0.8 * (1 - Math.exp(-2 * (1 - site.aridityIndex) - 2 * fill)) * clamp((day.temperature2m - 2) / 14, 0, 1);
+		ndvi = ndvi === undefined ? supported : ndvi + (supported - ndvi) / GREENING_DAYS;
+		return { soilMoistureRootZone: 0.06 + 0.36 * fill, ndvi };
+	});
+}
+
+export function getDroughtCategory(index: number) {
+	if (index < 0.2) return "None";
+	if (index < 0.3) return "Abnormally Dry";
+	if (index < 0.4) return "Moderate Drought";
+	if (index < 0.5) return "Severe Drought";
+	if (index < 0.6) return "Extreme Drought";
+	return "Exceptional Drought";
+}
+
+// Simplified Köppen classes from the annual temperature cycle and rainfall
+function classifyZone(meanC: number, coldestC: number, warmestC: number, annualPrecipitationMm: number): ClimateZone {
+	if (warmestC < 10) return "Polar";
+	if (annualPrecipitationMm < 20 * meanC + 280) return "Arid";
+	if (coldestC >= 18) return "Tropical";
+	// Hard winters with short, mild summers; hot-summer continental climates farm like temperate ones
+	if (coldestC < -3 && warmestC < 22) return "Boreal";
+	return "Temperate";
+}
+
+// Monthly rain against what a warm, sunny month could evaporate; above 1 the soil stays wet
+function moistureSupply(weather: WeatherObservations): number {
+	const potentialEtMm = 30 * Math.max(0.3, 0.0135 * (weather.temperature2m + 17.8) * ((weather.solarRadiation * 0.0864) / 2.45));
+	return weather.precipitation / potentialEtMm;
+}
+
+// Daily mean sunlight at the top of the atmosphere, W/m2
+function dailyTopOfAtmosphere(lat: number, dayOfYear: number): number {
+	const phi = (lat * Math.PI) / 180;
+	const declination = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39);
+	const sunsetAngle = Math.acos(clamp(-Math.tan(phi) * Math.tan(declination), -1, 1));
+	const distanceFactor = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+	return (SOLAR_CONSTANT_W_M2 / Math.PI) * distanceFactor *
+		(sunsetAngle * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle));
+}
+
+// Plateaus keep a flat top and fall off steeply at the edges instead of tapering like a bell curve
+function anchorSum(anchors: Anchor[], lat: number, lon: number, plateau = false): number {
+	return anchors.reduce((sum, a) => {
+		// Wrap longitude so anchors near the date line reach across it
+		const dLon = ((((lon - a.lon) % 360) + 540) % 360) - 180;
+		const distance = ((lat - a.lat) / a.sigmaLat) ** 2 + (dLon / a.sigmaLon) ** 2;
+		return sum + a.value * Math.exp(-0.5 * (plateau ? distance * distance : distance));
+	}, 0);
+}
+
+function gaussian(x: number, center: number, width: number): number {
+	return Math.exp(-0.5 * ((x - center) / width) ** 2);
+}
+
+// Roughly standard normal from the seeded uniform stream (Irwin-Hall with four draws)
+function normal(random: Random): number {
+	return (random() + random() + random() + random() - 2) * Math.sqrt(3);
+}
+
+function getDayOfYear(date: Date): number {
+	const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+	return Math.floor((date.getTime() - start) / DAY_MS) + 1;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,175 @@
+import type { SiteClimate } from "./syntheticClimate";
+
+export type DatasetKey = "power" | "smap" | "modis" | "gpm" | "drought";
+
+// Everything the nasaData route can return: the upstream datasets plus the metrics derived from them
+export type DatasetName = DatasetKey | "derived";
+
+// What a dataset measures and how finely, for the catalog and next to each response block
+export type DatasetMetadata = {
+	name: DatasetName;
+	title: string;
+	description: string;
+	units: Record<string, string>; // per field
+	spatialResolution: string;
+	temporalResolution: string;
+	temporalCoverage: string;
+	documentation?: string; // URL
+};
+
+// POWER API - Weather and Climate
+export type WeatherObservations = {
+	temperature2m: number; // °C
+	precipitation: number; // mm over the month
+	solarRadiation: number; // daily mean W/m2
+	humidity: number; // %
+	windSpeed: number; // m/s
+};
+
+// SMAP - Soil Moisture
+export type SoilMoistureObservations = {
+	soilMoistureSurface: number; // m3/m3
+	soilMoistureRootZone: number; // m3/m3
+	soilTemperature: number; // °C
+};
+
+// MODIS - Vegetation Health
+export type VegetationObservations = {
+	ndvi: number;
+	evi: number;
+	lai: number;
+	fpar: number;
+};
+
+// GPM - Precipitation
+export type PrecipitationObservations = {
+	precipitationRate: number; // mm/h
+	precipitationAccumulation: number; // mm
+};
+
+// Drought Monitor
+export type DroughtObservations = {
+	droughtIndex: number; // 0 normal to 1 exceptional
+	droughtCategory: string;
+	soilMoisturePercentile: number;
+};
+
+// One day of POWER-style weather, as returned by the history adapters
+export type DailyWeatherObservation = Omit<WeatherObservations, "precipitation"> & {
+	date: string; // YYYY-MM-DD
+	precipitation: number; // mm that day
+};
+
+export type DateRange = {
+	start: Date;
+	end: Date;
+};
+
+export type Observations = {
+	power: WeatherObservations;
+	smap: SoilMoistureObservations;
+	modis: VegetationObservations;
+	gpm: PrecipitationObservations;
+	drought: DroughtObservations;
+};
+
+// Everything an adapter may need to look up one dataset for one place and day
+export type DatasetRequest = {
+	lat: number;
+	lon: number;
+	date: Date;
+	seed: number;
+	site: SiteClimate;
+};
+
+// One dataset from one source; the satellite datasets also see the weather, which synthetic stand-ins are derived from
+export type DatasetAdapter<T, Input = void> = {
+	source: string;
+	synthetic?: boolean; // computed locally from the seed, so cheap to recompute and never cached
+	recordedAt?: string; // a fixed recording made on this date, returned whatever place and time is asked for
+	fetch: (request: DatasetRequest, weather: Input) => Promise<T>;
+};
+
+export type DataProvider = {
+	name: string;
+	description: string;
+	power: DatasetAdapter<WeatherObservations>;
+	smap: DatasetAdapter<SoilMoistureObservations, WeatherObservations>;
+	modis: DatasetAdapter<VegetationObservations, WeatherObservations>;
+	gpm: DatasetAdapter<PrecipitationObservations, WeatherObservations>;
+	drought: DatasetAdapter<DroughtObservations, WeatherObservations>;
+	history: DatasetAdapter<DailyWeatherObservation[], DateRange>; // daily weather over a date range
+};
+
+// A dataset the chosen provider couldn't supply, answered with synthetic data instead
+export type ProviderFallback = {
+	dataset: DatasetKey;
+	source: string;
+	reason: string;
+};
+
+// Whether a dataset came from the cache and how old it was
+export type CacheStatus = {
+	hit: boolean;
+	store?: "memory" | "disk";
+	ageSeconds: number;
+	ttlSeconds: number;
+	coalesced?: boolean; // shared the load of an identical lookup already in flight
+};
+
+// How far a value can be trusted: observed upstream for this place, recorded elsewhere, estimated by the
+// synthetic model, estimated because the chosen source failed, calculated from other values, or assumed
+export type QualityFlag = "observed" | "recorded" | "synthetic" | "fallback" | "derived" | "default";
+
+export type ValueProvenance = {
+	source: string;
+	acquiredAt?: string; // ISO date the value describes; defaults describe no time at all
+	spatialResolution: string;
+	quality: QualityFlag;
+	adjustedBy?: string[]; // scenario events or projections that shifted the value afterwards
+};
+
+// Provenance per value, keyed like the data it describes: dataset, then field (dotted for nested derived metrics)
+export type DataProvenance = Partial<Record<DatasetName, Record<string, ValueProvenance>>>;
+
+// Which provider answered and where each dataset actually came from
+export type ProviderReport = {
+	provider: string;
+	sources: Partial<Record<DatasetKey, string>>; // every dataset fetched, including weather the others were derived from
+	fallbacks: ProviderFallback[];
+	cache: Partial<Record<DatasetKey, CacheStatus>>; // upstream datasets only; synthetic ones are recomputed
+};
+
+export type HistoryResolution = "daily" | "weekly" | "monthly";
+
+// Daily weather with the root-zone moisture and greenness it leaves behind
+export type HistoryDay = DailyWeatherObservation & {
+	soilMoistureRootZone: number;
+	ndvi: number;
+};
+
+// Parallel arrays, one entry per period, ready to chart
+export type HistorySeries = {
+	periodStart: string[];
+	periodEnd: string[];
+	temperature2m: number[]; // period mean, °C
+	precipitation: number[]; // period total, mm
+	solarRadiation: number[]; // period mean, W/m2
+	soilMoistureRootZone: number[]; // period mean, m3/m3
+	ndvi: number[]; // period mean
+	normalTempC: number[]; // climatological normal for the same days
+	normalPrecipitationMm: number[]; // climatological normal total for the same days
+};
+
+export type EnvironmentalHistory = {
+	location: { lat: number; lon: number };
+	start: string;
+	end: string;
+	resolution: HistoryResolution;
+	seed: number;
+	sources: { weather: string; soilMoisture: string; vegetation: string };
+	fallbacks: ProviderFallback[];
+	cache?: CacheStatus;
+	provenance: Record<keyof EnvironmentalHistory["sources"], ValueProvenance>;
+	series: HistorySeries;
+};
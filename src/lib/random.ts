@@ -0,0 +1,28 @@
+export type Random = () => number;
+
+// Mulberry32: small, fast 32-bit generator with good enough statistics for synthetic data
+export function createRandom(seed: number): Random {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+// Independent sub-stream of a seed, so adding draws to one model doesn't shift another
+export function deriveSeed(seed: number, stream: string | number): number {
+	const text = `${seed >>> 0}:${stream}`;
+	let hash = 0x811c9dc5; // FNV-1a
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+export function randomSeed(): number {
+	return Math.floor(Math.random() * 4294967296);
+}
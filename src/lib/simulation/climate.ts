@@ -0,0 +1,214 @@
+import { getDroughtCategory } from "@/lib/nasa/syntheticClimate";
+import { checkObject, checkOption, type FieldError } from "@/lib/validation";
+import { CROP_LIBRARY, getCrop } from "./crops";
+import { runComprehensiveSimulation } from "./engine";
+import { SCORE_KEYS } from "./monteCarlo";
+import { NASA_INPUT_DEFAULTS as DEFAULTS } from "./nasaInputs";
+import type {
+	ClimateAdaptation,
+	ClimateComparison,
+	ClimateProjection,
+	ClimateProjectionInput,
+	NasaDataResponse,
+	PlayerChoices,
+	ScoreKey
+} from "./types";
+
+export type ClimatePathway = {
+	name: string;
+	description: string;
+	peakWarmingC: number; // global warming above pre-industrial once the pathway levels off
+	peakDecade: number; // decade the peak is reached; warming rises linearly until then
+};
+
+export type PrecipitationShift = {
+	name: string;
+	description: string;
+	percentPerC: number; // change in rainfall per degree of local warming
+};
+
+export const CLIMATE_PATHWAYS: Record<string, ClimatePathway> = {
+	"+1.5°C": {
+		name: "+1.5°C",
+		description: "Rapid emission cuts hold warming near the Paris Agreement goal",
+		peakWarmingC: 1.5,
+		peakDecade: 2040
+	},
+	"+2°C": {
+		name: "+2°C",
+		description: "Steady emission cuts level warming off by mid-century",
+		peakWarmingC: 2,
+		peakDecade: 2060
+	},
+	"+4°C": {
+		name: "+4°C",
+		description: "High emissions keep warming climbing through the century",
+		peakWarmingC: 4,
+		peakDecade: 2100
+	}
+};
+
+export const PRECIPITATION_SHIFTS: Record<string, PrecipitationShift> = {
+	Wetter: { name: "Wetter", description: "Rainfall rises with warming, as in the wet tropics and high latitudes", percentPerC: 5 },
+	"Global average": { name: "Global average", description: "Rainfall rises slowly with warming, the global mean response", percentPerC: 2 },
+	Drier: { name: "Drier", description: "Rainfall falls with warming, as in the subtropics and Mediterranean climates", percentPerC: -6 }
+};
+
+export const DEFAULT_PRECIPITATION_SHIFT = "Global average";
+// Decades a projection can target (2030 stands for the 2030s)
+export const PROJECTION_DECADES = [2030, 2040, 2050, 2060, 2070, 2080, 2090];
+
+// Global warming of the present-day baseline (IPCC AR6, 2011-2020)
+const PRESENT_WARMING_C = 1.1;
+const PRESENT_DECADE = 2020;
+// Land warms faster than the global mean, which includes the oceans
+const LAND_WARMING_RATIO = 1.4;
+// Heavy-rain intensity rises about 7% per degree as warmer air holds more water
+const RAIN_INTENSITY_PER_C = 0.07;
+// Added evaporative demand dries soils by about this share per degree
+const SOIL_DRYING_PER_C = 0.03;
+// Drip emitters wet only the root zone, so about this share of the sprinkler depth meets the same demand
+const DRIP_DEPTH_SHARE = 0.7;
+
+export function getClimatePathway(name?: string): ClimatePathway | undefined {
+	return CLIMATE_PATHWAYS[name ?? ""];
+}
+
+export function getPrecipitationShift(name?: string): PrecipitationShift {
+	return PRECIPITATION_SHIFTS[name ?? ""] ?? PRECIPITATION_SHIFTS[DEFAULT_PRECIPITATION_SHIFT];
+}
+
+// Problems with a projection request, one entry per bad field; query strings pass an empty path
+export function invalidClimateProjection(input: unknown, path = "climate"): FieldError[] {
+	const errors: FieldError[] = [];
+	const field = (name: string) => (path ? `${path}.${name}` : name);
+	if (!checkObject(errors, path || "climate", input, true)) return errors;
+	checkOption(errors, field("pathway"), input.pathway, Object.keys(CLIMATE_PATHWAYS), true);
+	if (!PROJECTION_DECADES.includes(input.decade as number)) {
+		errors.push({ field: field("decade"), message: `must be one of ${PROJECTION_DECADES.join(", ")}` });
+	}
+	checkOption(errors, field("precipitationShift"), input.precipitationShift, Object.keys(PRECIPITATION_SHIFTS));
+	return errors;
+}
+
+// Local temperature and rainfall change the pathway brings by the target decade
+export function projectClimate(input: ClimateProjectionInput): ClimateProjection {
+	const pathway = getClimatePathway(input.pathway) ?? CLIMATE_PATHWAYS["+2°C"];
+	const shift = getPrecipitationShift(input.precipitationShift);
+	const progress = Math.min(1, Math.max(0, (input.decade - PRESENT_DECADE) / (pathway.peakDecade - PRESENT_DECADE)));
+	const globalWarmingC = PRESENT_WARMING_C + (pathway.peakWarmingC - PRESENT_WARMING_C) * progress;
+	const localWarmingC = (globalWarmingC - PRESENT_WARMING_C) * LAND_WARMING_RATIO;
+
+	return {
+		pathway: pathway.name,
+		decade: input.decade,
+		precipitationShift: shift.name,
+		globalWarmingC: round2(globalWarmingC),
+		localWarmingC: round2(localWarmingC),
+		precipitationChangePercent: round1(shift.percentPerC * localWarmingC)
+	};
+}
+
+// Present-day observations shifted to the projected climate
+export function applyClimateProjection<T extends NasaDataResponse>(nasaData: T, projection: ClimateProjection): T {
+	const data = structuredClone(nasaData?.data ?? {});
+	const power = (data.power ??= {});
+	const smap = (data.smap ??= {});
+	const modis = (data.modis ??= {});
+	const gpm = (data.gpm ??= {});
+	const drought = (data.drought ??= {});
+	const warming = projection.localWarmingC;
+	const rainFactor = 1 + projection.precipitationChangePercent / 100;
+	const soilFactor = Math.max(0.2, 1 + (rainFactor - 1) * 0.5 - SOIL_DRYING_PER_C * warming);
+
+	power.temperature2m = (power.temperature2m ?? DEFAULTS["power.temperature2m"]) + warming;
+	power.precipitation = (power.precipitation ?? DEFAULTS["power.precipitation"]) * rainFactor;
+	// Relative humidity over land slips slightly as temperatures outpace moisture supply
+	power.humidity = clamp((power.humidity ?? DEFAULTS["power.humidity"]) - 0.5 * warming, 10, 100);
+	smap.soilMoistureSurface = clamp((smap.soilMoistureSurface ?? DEFAULTS["smap.soilMoistureSurface"]) * soilFactor, 0.05, 0.5);
+	smap.soilMoistureRootZone = clamp((smap.soilMoistureRootZone ?? DEFAULTS["smap.soilMoistureRootZone"]) * soilFactor, 0.05, 0.5);
+	smap.soilTemperature = (smap.soilTemperature ?? DEFAULTS["smap.soilTemperature"]) + warming;
+	modis.ndvi = clamp((modis.ndvi ?? DEFAULTS["modis.ndvi"]) * Math.min(1, soilFactor), 0.05, 1);
+	// Rain falls in heavier bursts even where the total barely changes
+	gpm.precipitationRate = (gpm.precipitationRate ?? DEFAULTS["gpm.precipitationRate"]) * rainFactor * (1 + RAIN_INTENSITY_PER_C * warming);
+	gpm.precipitationAccumulation = (gpm.precipitationAccumulation ?? DEFAULTS["gpm.precipitationAccumulation"]) * rainFactor;
+	drought.droughtIndex = clamp((drought.droughtIndex ?? DEFAULTS["drought.droughtIndex"]) + 0.5 * (1 - soilFactor), 0, 1);
+	drought.droughtCategory = getDroughtCategory(drought.droughtIndex);
+
+	return { ...nasaData, data };
+}
+
+// Scores under the projected climate next to the present day, plus adaptations tried against the projection
+export async function runClimateComparison(
+	choices: PlayerChoices,
+	nasaData: NasaDataResponse,
+	input: ClimateProjectionInput
+): Promise<ClimateComparison> {
+	const projection = projectClimate(input);
+	const projectedData = applyClimateProjection(nasaData, projection);
+	const presentScores = scoresOf(await runComprehensiveSimulation(choices, nasaData));
+	const projectedScores = scoresOf(await runComprehensiveSimulation(choices, projectedData));
+
+	const tryAdaptation = async (action: string, description: string, adapted: PlayerChoices): Promise<ClimateAdaptation> => {
+		const scores = scoresOf(await runComprehensiveSimulation(adapted, projectedData));
+		return { action, description, projectedScores: scores, scoreChange: difference(scores, projectedScores) };
+	};
+
+	// The crop that earns the most in the projected climate, compared in money so different crops line up
+	const currentCrop = getCrop(choices.cropType).name;
+	let bestCrop: ClimateAdaptation | undefined;
+	for (const crop of Object.values(CROP_LIBRARY)) {
+		if (crop.name === currentCrop) continue;
+		const candidate = await tryAdaptation(`Switch to ${crop.name}`, `Grow ${crop.name.toLowerCase()} instead of ${currentCrop.toLowerCase()}`,
+			{ ...choices, cropType: crop.name });
+		if (!bestCrop || candidate.projectedScores.economicViability > bestCrop.projectedScores.economicViability) bestCrop = candidate;
+	}
+
+	const adaptations = [
+		...(bestCrop ? [bestCrop] : []),
+		await tryAdaptation("Irrigate 2 mm/day more", "Meet the added evaporative demand of a warmer season",
+			{ ...choices, irrigationMmPerDay: choices.irrigationMmPerDay + 2 }),
+		await tryAdaptation("Switch to drip irrigation", "Deliver the added water at the roots, losing less to runoff and drainage",
+			{ ...choices, irrigationMmPerDay: round1((choices.irrigationMmPerDay + 2) * DRIP_DEPTH_SHARE) })
+	];
+	if (choices.farmingMethod !== "Conservation") {
+		adaptations.push(await tryAdaptation("Switch to Conservation farming", "Residue cover and no-till hold moisture in hotter, drier soils",
+			{ ...choices, farmingMethod: "Conservation" }));
+	}
+
+	return {
+		projection,
+		presentScores,
+		projectedScores,
+		scoreChange: difference(projectedScores, presentScores),
+		adaptations
+	};
+}
+
+function scoresOf(result: Record<ScoreKey, number>): Record<ScoreKey, number> {
+	const scores = {} as Record<ScoreKey, number>;
+	SCORE_KEYS.forEach((key) => {
+		scores[key] = result[key];
+	});
+	return scores;
+}
+
+function difference(a: Record<ScoreKey, number>, b: Record<ScoreKey, number>): Record<ScoreKey, number> {
+	const change = {} as Record<ScoreKey, number>;
+	SCORE_KEYS.forEach((key) => {
+		change[key] = a[key] - b[key];
+	});
+	return change;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
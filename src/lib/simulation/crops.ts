@@ -0,0 +1,61 @@
+import cropCatalog from "./crops.json";
+
+export type CropProfile = {
+	name: string;
+	description: string;
+	stageDays: [number, number, number, number]; // initial, development, mid-season, late-season
+	kc: { initial: number; mid: number; end: number }; // FAO-56 single crop coefficients
+	baseTempC: number;
+	optimumTempC: number;
+	heatThresholdC: number;
+	rootDepthM: number;
+	depletionFraction: number; // FAO-56 "p": share of available water usable before stress sets in
+	radiationUseEfficiency: number; // g biomass per MJ of intercepted PAR
+	harvestIndex: number;
+	nitrogenDemandKgPerHa: number; // N the crop needs from fertilizer and soil over the season
+	typicalYieldTPerHa: number;
+	pricePerTonne: number; // USD
+	yieldIndex: number; // relative yield potential used by the snapshot score, corn = 100
+	floodedMethaneKgPerHaPerDay?: number; // IPCC baseline CH4 from continuously flooded paddies, flooded crops only
+	pests: {
+		insect: { name: string; baseTempC: number; degreeDaysPerGeneration: number; maxYieldLoss: number };
+		disease: { name: string; minTempC: number; maxTempC: number; maxYieldLoss: number }; // temperatures that favor infection
+	};
+	rotation: {
+		pestGroup: string; // crops in the same group host the same pests and diseases
+		residualNitrogen: number; // kg N/ha left behind for the next crop
+		residueOrganicMatter: number; // % points of soil organic matter added by residue
+		rootingRelief: number; // compaction loosened by the root system
+	};
+};
+
+// Crops live in crops.json so the catalog can grow without touching the models
+export const CROP_LIBRARY: Record<string, CropProfile> = Object.fromEntries(
+	(cropCatalog as CropProfile[]).map((crop) => [crop.name, crop])
+);
+
+export const DEFAULT_CROP = "Corn";
+
+export function getCrop(name?: string): CropProfile {
+	return CROP_LIBRARY[name ?? ""] ?? CROP_LIBRARY[DEFAULT_CROP];
+}
+
+export function listCrops(): CropProfile[] {
+	return Object.values(CROP_LIBRARY);
+}
+
+// Share of the full growth rate at a temperature: nothing at or below base, rising to the optimum,
+// flat up to the heat threshold, then falling to nothing 10°C past it
+export function temperatureFactor(crop: CropProfile, temperatureC: number): number {
+	if (temperatureC <= crop.baseTempC) return 0;
+	if (temperatureC < crop.optimumTempC) {
+		return (temperatureC - crop.baseTempC) / (crop.optimumTempC - crop.baseTempC);
+	}
+	if (temperatureC <= crop.heatThresholdC) return 1;
+	return Math.max(0, 1 - (temperatureC - crop.heatThresholdC) / 10);
+}
+
+// Heat damage on a day, from none at the heat threshold to full 5°C past it
+export function heatStressAt(crop: CropProfile, temperatureC: number): number {
+	return Math.max(0, Math.min(1, (temperatureC - crop.heatThresholdC) / 5));
+}
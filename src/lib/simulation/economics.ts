@@ -0,0 +1,196 @@
+import { CROP_LIBRARY, getCrop } from "./crops";
+import { getFarmingMethod } from "./farmingMethods";
+import { getPestControl } from "./pests";
+import type { BudgetLine, EconomicsInput, FarmBudget, FarmEconomics, HerdAssessment, InputCosts, PlayerChoices } from "./types";
+
+export type CurrencyProfile = {
+	code: string;
+	symbol: string;
+	name: string;
+	perUsd: number; // units of this currency bought with one US dollar
+};
+
+export type RegionalPreset = {
+	name: string;
+	description: string;
+	currency: string;
+	cropPriceFactor: number; // local farm-gate price relative to the world price in the crop library
+	livestockRevenuePerLu: number; // USD per livestock unit per year
+	costs: InputCosts; // USD
+};
+
+export const CURRENCIES: Record<string, CurrencyProfile> = {
+	USD: { code: "USD", symbol: "$", name: "US Dollar", perUsd: 1 },
+	EUR: { code: "EUR", symbol: "€", name: "Euro", perUsd: 0.92 },
+	GBP: { code: "GBP", symbol: "£", name: "British Pound", perUsd: 0.79 },
+	INR: { code: "INR", symbol: "₹", name: "Indian Rupee", perUsd: 83 },
+	BRL: { code: "BRL", symbol: "R$", name: "Brazilian Real", perUsd: 5 },
+	KES: { code: "KES", symbol: "KSh", name: "Kenyan Shilling", perUsd: 130 }
+};
+
+export const REGIONAL_PRESETS: Record<string, RegionalPreset> = {
+	"US Midwest": {
+		name: "US Midwest",
+		description: "Large mechanized farms, cheap energy and expensive labor",
+		currency: "USD",
+		cropPriceFactor: 1.0,
+		livestockRevenuePerLu: 1400,
+		costs: { fertilizerPerKg: 1.2, waterPerM3: 0.05, energyPerKWh: 0.12, feedPerTonneDm: 180, laborPerHour: 18, machineryPerHa: 250 }
+	},
+	"Western Europe": {
+		name: "Western Europe",
+		description: "High input, water and labor costs offset by higher farm-gate prices",
+		currency: "EUR",
+		cropPriceFactor: 1.1,
+		livestockRevenuePerLu: 1600,
+		costs: { fertilizerPerKg: 1.4, waterPerM3: 0.3, energyPerKWh: 0.25, feedPerTonneDm: 250, laborPerHour: 20, machineryPerHa: 300 }
+	},
+	"South Asia": {
+		name: "South Asia",
+		description: "Subsidized fertilizer and power, smallholder labor and hired machinery",
+		currency: "INR",
+		cropPriceFactor: 0.9,
+		livestockRevenuePerLu: 500,
+		costs: { fertilizerPerKg: 0.6, waterPerM3: 0.01, energyPerKWh: 0.08, feedPerTonneDm: 120, laborPerHour: 1.5, machineryPerHa: 60 }
+	},
+	"East Africa": {
+		name: "East Africa",
+		description: "Imported fertilizer is costly while labor is cheap",
+		currency: "KES",
+		cropPriceFactor: 1.1,
+		livestockRevenuePerLu: 400,
+		costs: { fertilizerPerKg: 1.8, waterPerM3: 0.1, energyPerKWh: 0.2, feedPerTonneDm: 200, laborPerHour: 2, machineryPerHa: 80 }
+	},
+	Brazil: {
+		name: "Brazil",
+		description: "Export-oriented grain and beef with moderate input costs",
+		currency: "BRL",
+		cropPriceFactor: 0.95,
+		livestockRevenuePerLu: 900,
+		costs: { fertilizerPerKg: 1.0, waterPerM3: 0.03, energyPerKWh: 0.12, feedPerTonneDm: 150, laborPerHour: 5, machineryPerHa: 150 }
+	}
+};
+
+export const DEFAULT_REGION = "US Midwest";
+
+// Electricity to lift and pressurize one cubic metre of irrigation water
+export const PUMPING_KWH_PER_M3 = 0.3;
+// Hours of fieldwork per hectare per season under conventional tillage
+const CROP_LABOR_HOURS_PER_HA = 8;
+// Hours of herding, milking and care per livestock unit per year
+const LIVESTOCK_LABOR_HOURS_PER_LU = 25;
+// Field-operation emissions of conventional tillage, used to scale passes for other methods
+const CONVENTIONAL_FIELD_OPERATIONS = 50;
+
+export function getCurrency(code?: string): CurrencyProfile {
+	return CURRENCIES[code ?? ""] ?? CURRENCIES.USD;
+}
+
+export function getRegionalPreset(name?: string): RegionalPreset {
+	return REGIONAL_PRESETS[name ?? ""] ?? REGIONAL_PRESETS[DEFAULT_REGION];
+}
+
+// Regional preset converted to the chosen currency, with any player overrides on top
+export function resolveEconomics(input: EconomicsInput = {}): FarmEconomics {
+	const preset = getRegionalPreset(input.region);
+	const currency = getCurrency(input.currency ?? preset.currency);
+	const costs = Object.fromEntries(
+		Object.entries(preset.costs).map(([item, usd]) => [item, convert(usd, currency)])
+	) as InputCosts;
+	const cropPrices = Object.fromEntries(
+		Object.values(CROP_LIBRARY).map((crop) => [crop.name, convert(crop.pricePerTonne * preset.cropPriceFactor, currency)])
+	);
+
+	return {
+		region: preset.name,
+		currency: currency.code,
+		cropPrices: { ...cropPrices, ...input.cropPrices },
+		livestockRevenuePerLu: input.livestockRevenuePerLu ?? convert(preset.livestockRevenuePerLu, currency),
+		costs: { ...costs, ...input.costs }
+	};
+}
+
+// Snapshot yield scores are relative to the crop's yield index, which stands for its typical harvest
+export function yieldScoreToTonnes(yieldScore: number, cropType?: string): number {
+	const crop = getCrop(cropType);
+	return (crop.typicalYieldTPerHa * yieldScore) / crop.yieldIndex;
+}
+
+// Itemized annual revenue and costs for one hectare
+export function buildFarmBudget(choices: PlayerChoices, yieldScore: number, herd: HerdAssessment): FarmBudget {
+	const economics = resolveEconomics(choices.economics);
+	const { costs } = economics;
+	const currency = getCurrency(economics.currency);
+	const crop = getCrop(choices.cropType);
+	const method = getFarmingMethod(choices.farmingMethod);
+	const pestControl = getPestControl(choices.pestControl);
+	const fieldOperations = method.fieldOperationEmissions / CONVENTIONAL_FIELD_OPERATIONS;
+
+	const yieldTPerHa = yieldScoreToTonnes(yieldScore, crop.name);
+	const cropPrice = economics.cropPrices[crop.name] * method.pricePremium;
+	const irrigationM3 = seasonIrrigationM3(choices);
+	// Forage the pasture cannot supply is bought in as feed
+	const feedTonnes = (Math.max(0, herd.forageDemandKgDmPerHaPerDay - herd.pastureGrowthKgDmPerHaPerDay) * 365) / 1000;
+	const laborHours = CROP_LABOR_HOURS_PER_HA * fieldOperations + herd.livestockUnitsPerHa * LIVESTOCK_LABOR_HOURS_PER_LU;
+
+	const revenue = [
+		line(`${crop.name} sales`, yieldTPerHa, "t", cropPrice),
+		line(`${herd.species} products`, herd.livestockUnitsPerHa, "LU", economics.livestockRevenuePerLu)
+	].filter((l) => l.quantity > 0);
+	const expenses = [
+		line("Fertilizer", choices.fertilizerKgPerHa, "kg", costs.fertilizerPerKg * method.inputCostFactor),
+		line("Irrigation water", irrigationM3, "m³", costs.waterPerM3),
+		line("Pumping energy", irrigationM3 * PUMPING_KWH_PER_M3, "kWh", costs.energyPerKWh),
+		line("Purchased feed", feedTonnes, "t DM", costs.feedPerTonneDm),
+		line("Labor", laborHours, "h", costs.laborPerHour),
+		line("Machinery", fieldOperations, "ha", costs.machineryPerHa),
+		line(`Pest control (${pestControl.name})`, pestControl.costPerHa > 0 ? 1 : 0, "ha", convert(pestControl.costPerHa, currency))
+	].filter((l) => l.quantity > 0);
+
+	const totalRevenue = sum(revenue);
+	const totalCosts = sum(expenses);
+	// Break-even yield only has to cover the costs that livestock income leaves unpaid
+	const otherRevenue = totalRevenue - yieldTPerHa * cropPrice;
+
+	return {
+		region: economics.region,
+		currency: currency.code,
+		currencySymbol: currency.symbol,
+		yieldTPerHa: round2(yieldTPerHa),
+		revenue,
+		costs: expenses,
+		totalRevenue: round2(totalRevenue),
+		totalCosts: round2(totalCosts),
+		profit: round2(totalRevenue - totalCosts),
+		breakEvenYieldTPerHa: cropPrice > 0 ? round2(Math.max(0, (totalCosts - otherRevenue) / cropPrice)) : 0,
+		returnOnInputs: totalCosts > 0 ? Math.round(((totalRevenue - totalCosts) / totalCosts) * 1000) / 10 : 0
+	};
+}
+
+// Irrigation applied per hectare over the crop's growing season
+export function seasonIrrigationM3(choices: PlayerChoices): number {
+	const seasonDays = getCrop(choices.cropType).stageDays.reduce((total, days) => total + days, 0);
+	// 1 mm of water over a hectare is 10 m3
+	return choices.irrigationMmPerDay * seasonDays * 10;
+}
+
+// Amount in US dollars, so scores compare across currencies
+export function toUsd(amount: number, currencyCode: string): number {
+	return amount / getCurrency(currencyCode).perUsd;
+}
+
+function convert(usd: number, currency: CurrencyProfile): number {
+	return round2(usd * currency.perUsd);
+}
+
+function line(item: string, quantity: number, unit: string, unitPrice: number): BudgetLine {
+	return { item, quantity: round2(quantity), unit, unitPrice: round2(unitPrice), amount: round2(quantity * unitPrice) };
+}
+
+function sum(lines: BudgetLine[]): number {
+	return lines.reduce((total, l) => total + l.amount, 0);
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
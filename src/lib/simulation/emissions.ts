@@ -0,0 +1,87 @@
+import { getCrop } from "./crops";
+import { PUMPING_KWH_PER_M3, seasonIrrigationM3 } from "./economics";
+import { getFarmingMethod } from "./farmingMethods";
+import { getLivestockSpecies } from "./livestock";
+import type { EmissionSource, EmissionsInventory, GreenhouseGas, HerdAssessment, NitrogenBalance, PlayerChoices } from "./types";
+
+// 100-year global warming potentials (IPCC AR5)
+export const GWP100: Record<GreenhouseGas, number> = { CO2: 1, CH4: 28, N2O: 265 };
+
+// IPCC Tier 1 default emission factors (2006 guidelines, 2019 refinement for rice)
+const DIRECT_N2O_FACTOR = 0.01; // EF1: kg N2O-N per kg synthetic or organic N applied
+const VOLATILIZED_N2O_FACTOR = 0.01; // EF4: kg N2O-N per kg NH3-N and NOx-N volatilized
+const LEACHED_N2O_FACTOR = 0.0075; // EF5: kg N2O-N per kg N leached or washed off
+const N2O_PER_N2O_N = 44 / 28;
+// Grid electricity, kg CO2 per kWh
+const GRID_CO2_PER_KWH = 0.45;
+// Rice water regime scaling factors (SFw): keeping paddies flooded starves the soil of oxygen
+const FLOODING_FACTORS = { continuous: 1.0, intermittent: 0.55, rainfed: 0.54 };
+const CONTINUOUS_FLOODING_MM_PER_DAY = 5;
+
+// Annual emissions per hectare by gas and source, in kg of gas and kg CO2e
+export function runEmissionsInventory(
+	choices: PlayerChoices,
+	nitrogen: NitrogenBalance,
+	herd: HerdAssessment,
+	cropYieldTPerHa: number
+): EmissionsInventory {
+	const crop = getCrop(choices.cropType);
+	const method = getFarmingMethod(choices.farmingMethod);
+	const species = getLivestockSpecies(herd.species);
+	const seasonDays = crop.stageDays.reduce((total, days) => total + days, 0);
+
+	const sources: EmissionSource[] = [
+		source("Fertilizer (direct)", "N2O", "crop", choices.fertilizerKgPerHa * DIRECT_N2O_FACTOR * N2O_PER_N2O_N),
+		source("Volatilized and leached N (indirect)", "N2O", "crop",
+			(nitrogen.losses.volatilizationKgPerHa * VOLATILIZED_N2O_FACTOR + nitrogen.lostToWaterKgPerHa * LEACHED_N2O_FACTOR) * N2O_PER_N2O_N),
+		source("Fertilizer manufacture", "CO2", "crop", choices.fertilizerKgPerHa * method.fertilizerEmissionFactor),
+		source("Field operations", "CO2", "crop", method.fieldOperationEmissions),
+		source("Pumping energy", "CO2", "crop", seasonIrrigationM3(choices) * PUMPING_KWH_PER_M3 * GRID_CO2_PER_KWH),
+		source("Soil carbon change", "CO2", "crop", -method.carbonSequestration),
+		source("Enteric fermentation", "CH4", "livestock", herd.entericMethaneKgPerHaPerYear),
+		source("Manure on pasture", "N2O", "livestock", herd.manureNitrogenKgPerHaPerYear * species.manureN2OFactor * N2O_PER_N2O_N)
+	];
+
+	if (crop.floodedMethaneKgPerHaPerDay) {
+		const regime = choices.irrigationMmPerDay >= CONTINUOUS_FLOODING_MM_PER_DAY ? "continuous"
+			: choices.irrigationMmPerDay > 0 ? "intermittent" : "rainfed";
+		sources.push(source(`Flooded ${crop.name.toLowerCase()} (${regime})`, "CH4", "crop",
+			crop.floodedMethaneKgPerHaPerDay * seasonDays * FLOODING_FACTORS[regime]));
+	}
+
+	const included = sources.filter((s) => s.kgGasPerHa !== 0);
+	const gases: Record<GreenhouseGas, number> = { CO2: 0, CH4: 0, N2O: 0 };
+	included.forEach((s) => {
+		gases[s.gas] = round2(gases[s.gas] + s.kgGasPerHa);
+	});
+	const cropKgCo2e = total(included.filter((s) => s.category === "crop"));
+	const livestockKgCo2e = total(included.filter((s) => s.category === "livestock"));
+
+	return {
+		sources: included,
+		gases,
+		totalKgCo2ePerHa: round1(cropKgCo2e + livestockKgCo2e),
+		cropKgCo2ePerHa: round1(cropKgCo2e),
+		livestockKgCo2ePerHa: round1(livestockKgCo2e),
+		cropYieldTPerHa: round1(cropYieldTPerHa),
+		// Crop and livestock emissions are divided by their own product so crops compare like for like
+		kgCo2ePerTonneCrop: cropYieldTPerHa > 0 ? Math.round(cropKgCo2e / cropYieldTPerHa) : 0,
+		kgCo2ePerLivestockUnit: herd.livestockUnitsPerHa > 0 ? Math.round(livestockKgCo2e / herd.livestockUnitsPerHa) : 0
+	};
+}
+
+function source(name: string, gas: GreenhouseGas, category: EmissionSource["category"], kgGas: number): EmissionSource {
+	return { source: name, gas, category, kgGasPerHa: round2(kgGas), kgCo2ePerHa: round1(kgGas * GWP100[gas]) };
+}
+
+function total(sources: EmissionSource[]): number {
+	return sources.reduce((sum, s) => sum + s.kgCo2ePerHa, 0);
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,539 @@
+import { getDroughtCategory } from "@/lib/nasa/syntheticClimate";
+import { getCrop, heatStressAt, temperatureFactor, type CropProfile } from "./crops";
+import { buildFarmBudget, toUsd } from "./economics";
+import { runEmissionsInventory } from "./emissions";
+import { getFarmingMethod, type FarmingMethodProfile } from "./farmingMethods";
+import { assessHerd } from "./livestock";
+import { nasaInput } from "./nasaInputs";
+import { runNitrogenBalance } from "./nitrogen";
+import { assessPestPressure, getPestControl } from "./pests";
+import { runMonthlyWaterBalance } from "./soilWater";
+import { getSoil } from "./soils";
+import type {
+	ComparisonData,
+	EmissionsInventory,
+	FarmBudget,
+	HeatSpell,
+	HerdAssessment,
+	IrrigationAnalysis,
+	LivestockAnalysis,
+	NitrogenBalance,
+	PestAssessment,
+	PlayerChoices,
+	Recommendation,
+	ScoreContribution,
+	SimulationResult,
+	SoilHealthMetrics,
+	WaterBalanceSummary
+} from "./types";
+
+// Running score that records every point added or taken away, and why
+type ScoreLedger = {
+	value: number;
+	contributions: ScoreContribution[];
+};
+
+// Conventional nutrient use efficiency that the fertilizer response curve was tuned for
+const FARMING_METHOD_BASELINE_EFFICIENCY = 0.5;
+// Profit (USD/ha) worth one economic viability point
+const USD_PER_ECONOMIC_POINT = 20;
+// Yield lost to a month-long spell of full heat stress
+const HEAT_SPELL_YIELD_LOSS = 0.5;
+
+export async function runComprehensiveSimulation(choices: PlayerChoices, nasaData: any): Promise<SimulationResult> {
+	const { irrigationMmPerDay, fertilizerKgPerHa, livestockDensityPerHa, cropType, soilType, farmingMethod } = choices;
+
+	const method = getFarmingMethod(farmingMethod);
+
+	// Base calculations with NASA data integration
+	const yieldLedger = calculateBaseYield(cropType, soilType || "Loam", nasaData, method);
+	const herd = assessHerd(choices, nasaData);
+	const waterBalance = runMonthlyWaterBalance(choices, nasaData);
+	const irrigationImpact = calculateIrrigationImpact(irrigationMmPerDay, nasaData, waterBalance);
+	const nitrogenBalance = runNitrogenBalance(choices, nasaData, waterBalance, method, herd, estimateOrganicMatter(choices, herd));
+	const fertilizerImpact = calculateFertilizerImpact(fertilizerKgPerHa, nitrogenBalance, method);
+	const livestockImpact = calculateLivestockImpact(herd, nasaData, method);
+	const pests = assessPestPressure(choices, nasaData);
+	
+	// Comprehensive scoring
+	adjust(yieldLedger, "Irrigation", irrigationMmPerDay, irrigationImpact.yieldBoost, "Irrigation water that stays in the root zone relieves crop stress (capped at +20)");
+	adjust(yieldLedger, "Fertilizer", fertilizerKgPerHa, fertilizerImpact.yieldBoost, "Nitrogen that is not lost to water or air raises yield (capped at +15)");
+	adjust(yieldLedger, "Livestock", livestockDensityPerHa, -livestockImpact.yieldReduction,
+		`${herd.species} at ${herd.livestockUnitsPerHa} LU/ha: grazing and trampling take 0.5 points per livestock unit`);
+	adjust(yieldLedger, "Pests and disease", pests.control, -yieldLedger.value * (pests.yieldLossPercent / 100),
+		`${pests.insect.name} (${pests.insect.riskLevel.toLowerCase()} risk) and ${pests.disease.name} (${pests.disease.riskLevel.toLowerCase()} risk) take ${pests.yieldLossPercent}% with ${pests.control === "None" ? "no" : pests.control} control`);
+	limitScore(yieldLedger, 0, Infinity);
+
+	const sustainabilityLedger = calculateSustainabilityScore(choices, nasaData, nitrogenBalance, herd);
+	const soilHealthLedger = calculateSoilHealthScore(choices, nasaData, herd);
+	const waterEfficiencyLedger = calculateWaterEfficiencyScore(waterBalance);
+	const budget = buildFarmBudget(choices, yieldLedger.value, herd);
+	const emissions = runEmissionsInventory(choices, nitrogenBalance, herd, budget.yieldTPerHa);
+	const carbonLedger = calculateCarbonFootprint(emissions);
+	const economicLedger = calculateEconomicViability(budget);
+	const waterQualityLedger = calculateWaterQualityScore(nitrogenBalance);
+
+	const yieldScore = yieldLedger.value;
+	const sustainabilityScore = sustainabilityLedger.value;
+	const soilHealthScore = soilHealthLedger.value;
+	const waterEfficiencyScore = waterEfficiencyLedger.value;
+	const carbonFootprint = carbonLedger.value;
+	const economicViability = economicLedger.value;
+	const waterQualityScore = waterQualityLedger.value;
+
+	// Generate insights and recommendations
+	const insights = generateComprehensiveInsights(choices, nasaData, herd, pests, {
+		yieldScore, sustainabilityScore, soilHealthScore, waterEfficiencyScore
+	});
+
+	const recommendations = generateDetailedRecommendations(choices, herd, pests, {
+		yieldScore, sustainabilityScore, soilHealthScore, waterEfficiencyScore
+	});
+
+	return {
+		yieldScore: Math.round(yieldScore),
+		sustainabilityScore: Math.round(sustainabilityScore),
+		soilHealthScore: Math.round(soilHealthScore),
+		waterEfficiencyScore: Math.round(waterEfficiencyScore),
+		carbonFootprint: Math.round(carbonFootprint),
+		economicViability: Math.round(economicViability),
+		waterQualityScore: Math.round(waterQualityScore),
+		contributions: {
+			yieldScore: yieldLedger.contributions,
+			sustainabilityScore: sustainabilityLedger.contributions,
+			soilHealthScore: soilHealthLedger.contributions,
+			waterEfficiencyScore: waterEfficiencyLedger.contributions,
+			carbonFootprint: carbonLedger.contributions,
+			economicViability: economicLedger.contributions,
+			waterQualityScore: waterQualityLedger.contributions
+		},
+		insights,
+		recommendations,
+		comparison: generateComparisonData(choices, yieldScore),
+		livestockImpact: analyzeLivestockEffects(herd, method, emissions),
+		irrigationAnalysis: analyzeIrrigationEffects(irrigationMmPerDay, nasaData, waterBalance),
+		soilHealthMetrics: analyzeSoilHealth(choices, nasaData, herd),
+		nitrogenBalance,
+		budget,
+		emissions,
+		pests,
+		farmingMethod: method
+	};
+}
+
+function calculateBaseYield(cropType: string | undefined, soilType: string, nasaData: any, method: FarmingMethodProfile): ScoreLedger {
+	const crop = getCrop(cropType);
+	const baseYield = crop.yieldIndex;
+	const soilFactor = getSoil(soilType).yieldFactor;
+	const temperature = nasaInput(nasaData, "power.temperature2m");
+	// Ideal temperatures add 10%; cold or heat pull yield down toward a tenth of potential
+	const weatherFactor = 0.1 + temperatureFactor(crop, temperature);
+	
+	// The factors multiply, so each one is credited with what it adds on top of the ones before it
+	const ledger = startScore("Crop", crop.name, baseYield, `Base yield potential of ${crop.name}`);
+	adjust(ledger, "Soil type", soilType, ledger.value * (soilFactor - 1), `${soilType} soil yields ${Math.round(soilFactor * 100)}% of loam`);
+	adjust(ledger, "Temperature", Math.round(temperature * 10) / 10, ledger.value * (weatherFactor - 1), describeTemperature(crop, temperature, weatherFactor));
+	// A scenario's hot spell is charged by its length and how far past the heat threshold it runs
+	const heatSpell: HeatSpell | undefined = nasaData?.heatSpell;
+	if (heatSpell && heatStressAt(crop, heatSpell.temperatureC) > 0) {
+		const loss = HEAT_SPELL_YIELD_LOSS * heatStressAt(crop, heatSpell.temperatureC) * Math.min(1, heatSpell.days / 30);
+		adjust(ledger, "Heat spell", Math.round(heatSpell.temperatureC * 10) / 10, -ledger.value * loss,
+			`${heatSpell.days} days at ${Math.round(heatSpell.temperatureC)}°C, past the ${crop.heatThresholdC}°C heat threshold for ${crop.name} (-${Math.round(loss * 100)}% yield)`);
+	}
+	adjust(ledger, "Farming method", method.name, ledger.value * (method.yieldPotential - 1),
+		`${method.name} farming reaches ${Math.round(method.yieldPotential * 100)}% of conventional yield potential`);
+	
+	return ledger;
+}
+
+function describeTemperature(crop: CropProfile, temperature: number, weatherFactor: number): string {
+	const percent = Math.round((weatherFactor - 1) * 100);
+	const effect = `${percent >= 0 ? "+" : ""}${percent}% yield`;
+	if (temperature <= crop.baseTempC) return `${crop.name} stops growing at or below its ${crop.baseTempC}°C base temperature (${effect})`;
+	if (temperature < crop.optimumTempC) return `Cooler than the ${crop.optimumTempC}°C optimum for ${crop.name} slows growth (${effect})`;
+	if (temperature <= crop.heatThresholdC) return `Within the ${crop.optimumTempC}-${crop.heatThresholdC}°C optimum for ${crop.name} (${effect})`;
+	return `Heat above the ${crop.heatThresholdC}°C threshold for ${crop.name} slows growth (${effect})`;
+}
+
+function calculateIrrigationImpact(irrigationMm: number, nasaData: any, waterBalance: WaterBalanceSummary): { yieldBoost: number; waterEfficiency: number } {
+	const nasaSoilMoisture = nasaInput(nasaData, "smap.soilMoistureRootZone");
+	// Only water that stays in the root zone grows the crop
+	const waterEfficiency = waterBalance.applicationEfficiency / 100;
+	
+	let yieldBoost = 0;
+	if (irrigationMm > 0) {
+		const efficiency = (nasaSoilMoisture > 0.25 ? 0.8 : 0.6) * waterEfficiency;
+		yieldBoost = Math.min(irrigationMm * 2 * efficiency, 20); // Cap at 20% boost
+	}
+	
+	return { yieldBoost, waterEfficiency };
+}
+
+function calculateFertilizerImpact(fertilizerKg: number, nitrogen: NitrogenBalance, method: FarmingMethodProfile): { yieldBoost: number; soilImpact: number } {
+	const { fertilizerKgPerHa, manureKgPerHa, mineralizationKgPerHa } = nitrogen.inputs;
+	const totalInputs = fertilizerKgPerHa + manureKgPerHa + mineralizationKgPerHa;
+	// Share of nitrogen that stays in the field rather than leaving as leachate, runoff or gas
+	const retention = totalInputs > 0 ? 1 - (nitrogen.lostToWaterKgPerHa + nitrogen.lostToAirKgPerHa) / totalInputs : 1;
+	const efficiency = method.fertilizerEfficiency / FARMING_METHOD_BASELINE_EFFICIENCY;
+	
+	const yieldBoost = Math.min(fertilizerKg * 0.5 * retention * efficiency, 15); // Cap at 15% boost
+	let soilImpact = fertilizerKg > 20 ? -5 : fertilizerKg > 10 ? -2 : 0; // Negative impact for overuse
+	if (method.organicMatterTrend > 0) soilImpact = Math.max(soilImpact, 0); // Organic inputs feed soil life instead
+	
+	return { yieldBoost, soilImpact };
+}
+
+function calculateLivestockImpact(herd: HerdAssessment, nasaData: any, method: FarmingMethodProfile): { yieldReduction: number; soilCompaction: number } {
+	const yieldReduction = herd.livestockUnitsPerHa * 0.5; // 0.5% reduction per livestock unit per hectare
+	const soilCompaction = herd.compactionIndex * 2 * method.compactionFactor; // Compaction risk increases with density
+	
+	return { yieldReduction, soilCompaction };
+}
+
+function calculateSustainabilityScore(choices: PlayerChoices, nasaData: any, nitrogen: NitrogenBalance, herd: HerdAssessment): ScoreLedger {
+	const score = startScore("Baseline", "-", 100, "Every farm starts from a perfect score");
+	const method = getFarmingMethod(choices.farmingMethod);
+	const { irrigationMmPerDay: irrigation } = choices;
+	const livestockUnits = herd.livestockUnitsPerHa;
+	
+	// Water usage penalty
+	if (irrigation > 8) adjust(score, "Irrigation", irrigation, -15, "Irrigating above 8 mm/day draws heavily on water resources");
+	else if (irrigation > 5) adjust(score, "Irrigation", irrigation, -8, "Irrigating above 5 mm/day draws on water resources");
+	
+	// Nitrogen escaping the field pollutes waterways and the air
+	adjust(score, "Nitrogen lost to water", nitrogen.lostToWaterKgPerHa, -Math.min(25, nitrogen.lostToWaterKgPerHa),
+		"Nitrate leaching and runoff reach streams and groundwater");
+	adjust(score, "Nitrogen lost to air", nitrogen.lostToAirKgPerHa, -Math.min(15, nitrogen.lostToAirKgPerHa * 0.3),
+		"Ammonia and nitrous oxide escape to the atmosphere");
+	
+	// Livestock density impact
+	if (livestockUnits > 5) adjust(score, "Livestock", livestockUnits, -10, "More than 5 livestock units/ha overloads the land");
+	else if (livestockUnits > 3) adjust(score, "Livestock", livestockUnits, -5, "More than 3 livestock units/ha strains the land");
+	if (herd.grazingPressure > 1) {
+		adjust(score, "Grazing pressure", herd.grazingPressure, -Math.min(10, (herd.grazingPressure - 1) * 20),
+			`${herd.grazingStrategy} grazing: the herd eats pasture faster than it regrows`);
+	}
+	
+	// NASA data bonuses
+	const ndvi = nasaInput(nasaData, "modis.ndvi");
+	const soilMoisture = nasaInput(nasaData, "smap.soilMoistureRootZone");
+	if (ndvi > 0.7) adjust(score, "Vegetation (NDVI)", ndvi, 5, "Dense, healthy vegetation cover");
+	if (soilMoisture > 0.3) adjust(score, "Soil moisture", soilMoisture, 3, "Well-watered root zone");
+	
+	// Management system
+	adjust(score, "Farming method", method.name, method.sustainabilityBonus, `${method.name} farming practices`);
+	const pestControl = getPestControl(choices.pestControl);
+	adjust(score, "Pest control", pestControl.name, pestControl.sustainabilityImpact, pestControl.sustainabilityImpact < 0
+		? "Routine sprays harm pollinators, natural enemies of pests and nearby waterways"
+		: "Treating only when needed spares pollinators and natural enemies of pests");
+	
+	return limitScore(score, 0, 100);
+}
+
+function calculateSoilHealthScore(choices: PlayerChoices, nasaData: any, herd: HerdAssessment): ScoreLedger {
+	const score = startScore("Baseline", "-", 80, "Typical soil health of working farmland");
+	const method = getFarmingMethod(choices.farmingMethod);
+	const { irrigationMmPerDay: irrigation, fertilizerKgPerHa: fertilizer } = choices;
+	
+	// Fertilizer impact
+	if (fertilizer > 25) adjust(score, "Fertilizer", fertilizer, -10, "Heavy fertilizer use acidifies soil and harms soil life");
+	else if (fertilizer < 5) adjust(score, "Fertilizer", fertilizer, -5, "Too little fertilizer mines soil nutrients");
+	
+	// Livestock impact, worse where tillage already compacts the soil
+	adjust(score, "Livestock", herd.compactionIndex, -herd.compactionIndex * 2 * method.compactionFactor,
+		`${herd.species} hooves under ${herd.grazingStrategy.toLowerCase()} grazing compact the soil, scaled by ${method.tillage.toLowerCase()}`);
+	
+	// Irrigation impact
+	if (irrigation > 10) adjust(score, "Irrigation", irrigation, -8, "Over-irrigation waterlogs and erodes soil");
+	
+	// NASA soil moisture bonus
+	const soilMoisture = nasaInput(nasaData, "smap.soilMoistureRootZone");
+	if (soilMoisture > 0.3) adjust(score, "Soil moisture", soilMoisture, 5, "Moist soil keeps soil life active");
+	else if (soilMoisture < 0.2) adjust(score, "Soil moisture", soilMoisture, -10, "Dry soil stresses soil life");
+	
+	// Organic matter trajectory under the chosen management system
+	adjust(score, "Farming method", method.name, method.organicMatterTrend * 100,
+		method.organicMatterTrend >= 0 ? `${method.name} farming builds organic matter` : `${method.name} farming depletes organic matter`);
+	
+	return limitScore(score, 0, 100);
+}
+
+function calculateWaterEfficiencyScore(waterBalance: WaterBalanceSummary): ScoreLedger {
+	const { irrigationMm, irrigationRunoffMm, irrigationDrainageMm, cropWaterSupply, soilType } = waterBalance;
+	
+	const score = startScore("Baseline", "-", 100, "Every drop of irrigation reaches the crop");
+	
+	// Points lost in proportion to the share of applied water the soil could not hold
+	if (irrigationMm > 0) {
+		adjust(score, "Runoff", irrigationRunoffMm, -(irrigationRunoffMm / irrigationMm) * 100,
+			`Irrigation applied faster than ${soilType.toLowerCase()} soil can absorb it runs off`);
+		adjust(score, "Drainage", irrigationDrainageMm, -(irrigationDrainageMm / irrigationMm) * 100,
+			`Water beyond what ${soilType.toLowerCase()} soil can hold drains below the roots`);
+	}
+	
+	// Under-watering wastes the crop's potential instead of the water
+	adjust(score, "Crop water supply", cropWaterSupply, -(100 - cropWaterSupply) * 0.4,
+		`Crop received ${cropWaterSupply}% of the water it could use`);
+	
+	return limitScore(score, 0, 100);
+}
+
+function calculateWaterQualityScore(nitrogen: NitrogenBalance): ScoreLedger {
+	const score = startScore("Baseline", "-", 100, "No nitrogen reaches streams or groundwater");
+	
+	// Scored on the nitrogen load reaching water; the concentration shows how close drainage is to the drinking limit
+	adjust(score, "Nitrate leaching", nitrogen.losses.leachingKgPerHa, -Math.min(60, nitrogen.losses.leachingKgPerHa * 2),
+		`Drainage carries nitrate to groundwater at ${nitrogen.nitrateInDrainageMgPerL} mg/L nitrate-N (drinking limit 11.3)`);
+	adjust(score, "Nitrogen runoff", nitrogen.losses.runoffKgPerHa, -Math.min(40, nitrogen.losses.runoffKgPerHa * 3),
+		"Heavy rain washes surface-applied nitrogen into streams");
+	
+	return limitScore(score, 0, 100);
+}
+
+function calculateCarbonFootprint(emissions: EmissionsInventory): ScoreLedger {
+	const footprint: ScoreLedger = { value: 0, contributions: [] };
+	emissions.sources.forEach((s) => adjust(footprint, s.source, s.kgGasPerHa, s.kgCo2ePerHa,
+		`${s.kgGasPerHa} kg ${s.gas}/ha/year as CO2 equivalent`));
+	
+	return limitScore(footprint, 0, Infinity);
+}
+
+// Every line of the farm budget is credited with its share of profit, in US dollars so currencies compare
+export function calculateEconomicViability(budget: FarmBudget): ScoreLedger {
+	const points = (amount: number) => toUsd(amount, budget.currency) / USD_PER_ECONOMIC_POINT;
+	const profit: ScoreLedger = { value: 0, contributions: [] };
+	budget.revenue.forEach((l) => adjust(profit, l.item, l.quantity, points(l.amount),
+		`${l.quantity} ${l.unit} at ${budget.currencySymbol}${l.unitPrice}/${l.unit}`));
+	budget.costs.forEach((l) => adjust(profit, l.item, l.quantity, -points(l.amount),
+		`${l.quantity} ${l.unit} at ${budget.currencySymbol}${l.unitPrice}/${l.unit}`));
+	
+	return limitScore(profit, 0, Infinity);
+}
+
+function startScore(factor: string, input: number | string, points: number, reason: string): ScoreLedger {
+	return { value: points, contributions: [contribution(factor, input, points, reason)] };
+}
+
+function adjust(ledger: ScoreLedger, factor: string, input: number | string, points: number, reason: string) {
+	if (points === 0) return;
+	ledger.value += points;
+	ledger.contributions.push(contribution(factor, input, points, reason));
+}
+
+// Clamping is reported as its own contribution so the list always sums to the final score
+function limitScore(ledger: ScoreLedger, min: number, max: number): ScoreLedger {
+	const limited = Math.max(min, Math.min(max, ledger.value));
+	adjust(ledger, "Score limit", limited === min ? min : max, limited - ledger.value,
+		limited === min ? `Scores cannot fall below ${min}` : `Scores cannot exceed ${max}`);
+	return ledger;
+}
+
+function contribution(factor: string, input: number | string, points: number, reason: string): ScoreContribution {
+	return {
+		factor,
+		input: typeof input === "number" ? Math.round(input * 100) / 100 : input,
+		points: Math.round(points * 10) / 10,
+		reason
+	};
+}
+
+function generateComprehensiveInsights(choices: PlayerChoices, nasaData: any, herd: HerdAssessment, pests: PestAssessment, scores: any): string[] {
+	const insights = [];
+	const method = getFarmingMethod(choices.farmingMethod);
+	
+	// Management system insights
+	insights.push(`${method.name} farming: ${method.description} (${method.fertilizerType.toLowerCase()}, ${method.tillage.toLowerCase()})`);
+	insights.push(...method.tradeOffs);
+	
+	// Irrigation insights
+	if (choices.irrigationMmPerDay > 8) {
+		insights.push("High irrigation levels detected - consider water conservation strategies");
+	} else if (choices.irrigationMmPerDay < 3) {
+		insights.push("Low irrigation may limit crop growth - monitor soil moisture closely");
+	}
+	
+	// Fertilizer insights
+	if (choices.fertilizerKgPerHa > 25) {
+		insights.push("High fertilizer use may cause nutrient runoff and soil degradation");
+	} else if (choices.fertilizerKgPerHa < 10) {
+		insights.push("Consider soil testing to optimize fertilizer application");
+	}
+	
+	// Livestock insights
+	if (herd.livestockUnitsPerHa > 4) {
+		insights.push("High livestock density increases soil compaction risk");
+	} else if (herd.head > 0) {
+		insights.push("Livestock can provide natural fertilizer through manure");
+	}
+	if (herd.grazingPressure > 1) {
+		insights.push(`${herd.species} need ${herd.forageDemandKgDmPerHaPerDay} kg of forage/ha a day but ${herd.grazingStrategy.toLowerCase()} grazing only regrows ${herd.pastureGrowthKgDmPerHaPerDay} kg`);
+	}
+	
+	// Pest and disease insights
+	if (pests.insect.riskLevel !== "Low") {
+		insights.push(`${pests.insect.riskLevel} ${pests.insect.name} pressure: ${pests.insect.degreeDays} degree days allow ${pests.insect.generations} generations this season`);
+	}
+	if (pests.disease.riskLevel !== "Low") {
+		insights.push(`${pests.disease.riskLevel} ${pests.disease.name} risk: leaves stay wet about ${pests.disease.leafWetnessHours} hours a day`);
+	}
+	
+	// NASA data insights
+	// The category follows the index, so a missing drought dataset reads as its default
+	const droughtCategory = getDroughtCategory(nasaInput(nasaData, "drought.droughtIndex"));
+	if (droughtCategory !== "None") {
+		insights.push(`Drought conditions detected (${droughtCategory}) - prioritize water conservation`);
+	}
+	
+	if (nasaInput(nasaData, "modis.ndvi") > 0.7) {
+		insights.push("Excellent vegetation health detected - current practices are effective");
+	}
+	
+	return insights;
+}
+
+function generateDetailedRecommendations(choices: PlayerChoices, herd: HerdAssessment, pests: PestAssessment, scores: any): Recommendation[] {
+	const recommendations = [];
+	
+	// Irrigation recommendations
+	if (scores.waterEfficiencyScore < 70) {
+		recommendations.push({
+			category: "Water Management",
+			priority: "High" as const,
+			action: "Optimize irrigation schedule",
+			impact: "Improve water efficiency by 15-20%",
+			implementation: "Use soil moisture sensors and irrigate during early morning"
+		});
+	}
+	
+	// Fertilizer recommendations
+	if (choices.fertilizerKgPerHa > 20) {
+		recommendations.push({
+			category: "Nutrient Management",
+			priority: "Medium" as const,
+			action: "Reduce fertilizer application",
+			impact: "Lower costs and reduce environmental impact",
+			implementation: "Conduct soil test and apply fertilizer based on crop needs"
+		});
+	}
+	
+	// Management system recommendations
+	if (getFarmingMethod(choices.farmingMethod).organicMatterTrend < 0 && scores.soilHealthScore < 75) {
+		recommendations.push({
+			category: "Soil Management",
+			priority: "Medium" as const,
+			action: "Transition to conservation or regenerative practices",
+			impact: "Rebuild soil organic matter and cut fuel costs",
+			implementation: "Switch to no-till and plant a cover crop after harvest"
+		});
+	}
+	
+	// Crop protection recommendations
+	if (pests.control === "None" && pests.unprotectedLossPercent > 5) {
+		recommendations.push({
+			category: "Crop Protection",
+			priority: pests.unprotectedLossPercent > 15 ? "High" as const : "Medium" as const,
+			action: "Adopt integrated pest management",
+			impact: `Protect part of the ${pests.unprotectedLossPercent}% yield at risk from ${pests.insect.name} and ${pests.disease.name}`,
+			implementation: pests.disease.riskLevel === "High"
+				? `Set Pest Control to IPM, or plant Resistant Varieties against ${pests.disease.name}`
+				: "Set Pest Control to IPM: scout weekly and spray only above economic thresholds"
+		});
+	} else if (pests.control === "Calendar Spraying" && pests.unprotectedLossPercent < 10) {
+		recommendations.push({
+			category: "Crop Protection",
+			priority: "Medium" as const,
+			action: "Switch from calendar spraying to IPM",
+			impact: "Cut pesticide costs and protect pollinators while pest pressure is low",
+			implementation: "Set Pest Control to IPM and treat only when scouting finds pests above threshold"
+		});
+	}
+	
+	// Livestock recommendations
+	const strained = herd.livestockUnitsPerHa > 3 || herd.grazingPressure > 1;
+	if (strained && herd.grazingStrategy === "Continuous") {
+		recommendations.push({
+			category: "Livestock Management",
+			priority: "Medium" as const,
+			action: "Implement rotational grazing",
+			impact: "Reduce soil compaction and improve pasture health",
+			implementation: "Set Grazing Strategy to Rotational to move the herd every 7-14 days and let pasture recover"
+		});
+	} else if (herd.grazingPressure > 1) {
+		recommendations.push({
+			category: "Livestock Management",
+			priority: "High" as const,
+			action: "Reduce stocking rate",
+			impact: "Stop overgrazing and bare, compacted ground",
+			implementation: herd.grazingStrategy === "Mob"
+				? `Cut ${herd.species.toLowerCase()} numbers until forage demand is below ${herd.pastureGrowthKgDmPerHaPerDay} kg DM/ha a day`
+				: "Switch to mob grazing with long rest periods, or carry fewer animals"
+		});
+	}
+	
+	return recommendations;
+}
+
+function generateComparisonData(choices: PlayerChoices, yieldScore: number): ComparisonData {
+	const baselineYield = 100;
+	const improvement = ((yieldScore - baselineYield) / baselineYield) * 100;
+	
+	return {
+		baseline: baselineYield,
+		current: yieldScore,
+		improvement: Math.round(improvement),
+		benchmark: improvement > 10 ? "Above Average" : improvement > 0 ? "Average" : "Below Average"
+	};
+}
+
+function analyzeLivestockEffects(herd: HerdAssessment, method: FarmingMethodProfile, emissions: EmissionsInventory): LivestockAnalysis {
+	const concerns = [];
+	if (herd.livestockUnitsPerHa > 3) concerns.push("Increased soil compaction", "Higher water consumption");
+	if (herd.grazingPressure > 1) concerns.push(`Overgrazing: forage demand is ${herd.grazingPressure}x pasture regrowth`);
+
+	return {
+		soilCompaction: herd.compactionIndex * 15 * method.compactionFactor, // Percentage
+		nutrientCycling: herd.livestockUnitsPerHa * 8, // Positive effect
+		waterConsumption: herd.waterUseLitresPerHaPerDay, // Liters per day
+		greenhouseGasEmissions: emissions.livestockKgCo2ePerHa, // kg CO2 equivalent per year
+		benefits: herd.head > 0 ? [
+			"Natural fertilizer through manure",
+			"Increased soil organic matter",
+			"Diversified income streams"
+		] : [],
+		concerns,
+		herd
+	};
+}
+
+function analyzeIrrigationEffects(irrigationMm: number, nasaData: any, waterBalance: WaterBalanceSummary): IrrigationAnalysis {
+	return {
+		efficiency: Math.round(waterBalance.applicationEfficiency),
+		waterStress: irrigationMm > 8 ? "High" : irrigationMm > 5 ? "Moderate" : "Low",
+		optimalTiming: "Early morning (6-8 AM)",
+		recommendedMethod: irrigationMm > 6 || waterBalance.irrigationRunoffMm > 0 ? "Drip Irrigation" : "Sprinkler System",
+		waterSavings: Math.round(100 - waterBalance.applicationEfficiency), // Share of irrigation lost to runoff and drainage
+		waterBalance
+	};
+}
+
+function estimateOrganicMatter(choices: PlayerChoices, herd: HerdAssessment): number {
+	const method = getFarmingMethod(choices.farmingMethod);
+	return 2.5 + (herd.livestockUnitsPerHa * 0.3) + herd.organicMatterBonus - (choices.fertilizerKgPerHa * 0.02) + method.organicMatterTrend * 5;
+}
+
+function analyzeSoilHealth(choices: PlayerChoices, nasaData: any, herd: HerdAssessment): SoilHealthMetrics {
+	const nasaSoilMoisture = nasaInput(nasaData, "smap.soilMoistureRootZone");
+	const method = getFarmingMethod(choices.farmingMethod);
+	const compaction = herd.compactionIndex * method.compactionFactor;
+	
+	return {
+		organicMatter: estimateOrganicMatter(choices, herd),
+		organicMatterTrend: method.organicMatterTrend,
+		pH: 6.5 + (choices.fertilizerKgPerHa * 0.01),
+		nutrientLevel: choices.fertilizerKgPerHa > 20 ? "High" : choices.fertilizerKgPerHa > 10 ? "Moderate" : "Low",
+		moistureRetention: nasaSoilMoisture * 100,
+		compactionRisk: compaction > 4 ? "High" : compaction > 2 ? "Moderate" : "Low"
+	};
+}
+
+
@@ -0,0 +1,104 @@
+export type FarmingMethodProfile = {
+	name: string;
+	description: string;
+	fertilizerType: string;
+	tillage: string;
+	yieldPotential: number; // multiplier on attainable yield
+	organicMatterTrend: number; // change in soil organic matter, % points per year
+	fertilizerEfficiency: number; // share of applied nutrients taken up by the crop
+	compactionFactor: number; // multiplier on traffic and grazing compaction
+	fertilizerEmissionFactor: number; // kg CO2 per kg of fertilizer from manufacture and transport
+	fieldOperationEmissions: number; // kg CO2e/ha/year from tillage and field passes
+	carbonSequestration: number; // kg CO2/ha/year stored in soil
+	inputCostFactor: number; // multiplier on input costs
+	pricePremium: number; // multiplier on crop revenue
+	sustainabilityBonus: number;
+	tradeOffs: string[];
+};
+
+export const FARMING_METHODS: Record<string, FarmingMethodProfile> = {
+	Conventional: {
+		name: "Conventional",
+		description: "Synthetic fertilizer with full tillage every season",
+		fertilizerType: "Synthetic (urea, NPK)",
+		tillage: "Full inversion tillage",
+		yieldPotential: 1.0,
+		organicMatterTrend: -0.05,
+		fertilizerEfficiency: 0.5,
+		compactionFactor: 1.2,
+		fertilizerEmissionFactor: 2,
+		fieldOperationEmissions: 50,
+		carbonSequestration: 0,
+		inputCostFactor: 1.0,
+		pricePremium: 1.0,
+		sustainabilityBonus: 0,
+		tradeOffs: [
+			"Highest yield potential but soil organic matter slowly declines",
+			"Frequent tillage leaves soil bare and prone to erosion"
+		]
+	},
+	Organic: {
+		name: "Organic",
+		description: "Manure and compost instead of synthetic inputs, mechanical weed control",
+		fertilizerType: "Organic (manure, compost)",
+		tillage: "Shallow tillage for weed control",
+		yieldPotential: 0.8,
+		organicMatterTrend: 0.08,
+		fertilizerEfficiency: 0.35,
+		compactionFactor: 1.1,
+		fertilizerEmissionFactor: 0.8,
+		fieldOperationEmissions: 60,
+		carbonSequestration: 40,
+		inputCostFactor: 1.2,
+		pricePremium: 1.3,
+		sustainabilityBonus: 8,
+		tradeOffs: [
+			"Lower yields are partly offset by premium prices",
+			"Nutrients release slowly, so crops may run short at peak demand"
+		]
+	},
+	Conservation: {
+		name: "Conservation",
+		description: "No-till with crop residue left on the surface",
+		fertilizerType: "Synthetic, precision placed",
+		tillage: "No-till",
+		yieldPotential: 0.95,
+		organicMatterTrend: 0.05,
+		fertilizerEfficiency: 0.6,
+		compactionFactor: 0.8,
+		fertilizerEmissionFactor: 1.8,
+		fieldOperationEmissions: 25,
+		carbonSequestration: 60,
+		inputCostFactor: 0.85,
+		pricePremium: 1.0,
+		sustainabilityBonus: 6,
+		tradeOffs: [
+			"Fewer field passes cut fuel and labor costs",
+			"Yields can dip for the first seasons after switching from tillage"
+		]
+	},
+	Regenerative: {
+		name: "Regenerative",
+		description: "No-till, cover crops and integrated grazing to rebuild soil",
+		fertilizerType: "Integrated (cover crops, manure, reduced synthetic)",
+		tillage: "No-till with cover crops",
+		yieldPotential: 0.9,
+		organicMatterTrend: 0.12,
+		fertilizerEfficiency: 0.55,
+		compactionFactor: 0.6,
+		fertilizerEmissionFactor: 1.2,
+		fieldOperationEmissions: 30,
+		carbonSequestration: 120,
+		inputCostFactor: 0.9,
+		pricePremium: 1.15,
+		sustainabilityBonus: 12,
+		tradeOffs: [
+			"Builds soil organic matter fastest and stores the most carbon",
+			"Needs more management skill to balance cover crops and grazing"
+		]
+	}
+};
+
+export function getFarmingMethod(name?: string): FarmingMethodProfile {
+	return FARMING_METHODS[name ?? ""] ?? FARMING_METHODS.Conventional;
+}
@@ -0,0 +1,162 @@
+import { nasaInput } from "./nasaInputs";
+import type { HerdAssessment, NasaDataResponse, PlayerChoices } from "./types";
+
+export type LivestockSpeciesProfile = {
+	name: string;
+	description: string;
+	livestockUnits: number; // LU per head (EU coefficients, dairy cow = 1)
+	forageDemandKgDm: number; // kg dry matter eaten per head per day
+	waterUseLitres: number; // litres drunk per head per day
+	entericMethaneKg: number; // kg CH4 per head per year (IPCC Tier 1)
+	manureNitrogenKg: number; // kg N excreted per head per year
+	manurePhosphorusKg: number; // kg P excreted per head per year
+	manureN2OFactor: number; // IPCC EF3 for dung and urine on pasture, kg N2O-N per kg N
+	hoofImpact: number; // compaction per LU relative to cattle
+};
+
+export type GrazingStrategyProfile = {
+	name: string;
+	description: string;
+	compactionFactor: number; // multiplier on trampling damage
+	regrowthFactor: number; // share of potential pasture growth achieved
+	organicMatterBonus: number; // % points of soil organic matter from trampled litter and even manure spread
+};
+
+export const LIVESTOCK_SPECIES: Record<string, LivestockSpeciesProfile> = {
+	"Dairy Cattle": {
+		name: "Dairy Cattle",
+		description: "High-yielding cows with the largest feed, water and methane footprint",
+		livestockUnits: 1.0,
+		forageDemandKgDm: 20,
+		waterUseLitres: 100,
+		entericMethaneKg: 128,
+		manureNitrogenKg: 110,
+		manurePhosphorusKg: 18,
+		manureN2OFactor: 0.02,
+		hoofImpact: 1.0
+	},
+	"Beef Cattle": {
+		name: "Beef Cattle",
+		description: "Suckler and finishing cattle raised mostly on pasture",
+		livestockUnits: 0.8,
+		forageDemandKgDm: 11,
+		waterUseLitres: 45,
+		entericMethaneKg: 53,
+		manureNitrogenKg: 60,
+		manurePhosphorusKg: 10,
+		manureN2OFactor: 0.02,
+		hoofImpact: 1.0
+	},
+	Sheep: {
+		name: "Sheep",
+		description: "Light grazers that graze close and spread manure evenly",
+		livestockUnits: 0.1,
+		forageDemandKgDm: 1.8,
+		waterUseLitres: 6,
+		entericMethaneKg: 8,
+		manureNitrogenKg: 10,
+		manurePhosphorusKg: 1.5,
+		manureN2OFactor: 0.01,
+		hoofImpact: 0.7
+	},
+	Goats: {
+		name: "Goats",
+		description: "Browsers that clear brush and weeds cattle will not eat",
+		livestockUnits: 0.1,
+		forageDemandKgDm: 1.6,
+		waterUseLitres: 5,
+		entericMethaneKg: 5,
+		manureNitrogenKg: 10,
+		manurePhosphorusKg: 1.5,
+		manureN2OFactor: 0.01,
+		hoofImpact: 0.7
+	},
+	Poultry: {
+		name: "Poultry",
+		description: "Free-range hens that forage insects and fertilize without methane",
+		livestockUnits: 0.014,
+		forageDemandKgDm: 0.02,
+		waterUseLitres: 0.25,
+		entericMethaneKg: 0,
+		manureNitrogenKg: 0.6,
+		manurePhosphorusKg: 0.2,
+		manureN2OFactor: 0.02,
+		hoofImpact: 0.2
+	}
+};
+
+export const GRAZING_STRATEGIES: Record<string, GrazingStrategyProfile> = {
+	Continuous: {
+		name: "Continuous",
+		description: "Animals stay on one pasture all season",
+		compactionFactor: 1.0,
+		regrowthFactor: 0.7,
+		organicMatterBonus: 0
+	},
+	Rotational: {
+		name: "Rotational",
+		description: "Herd moves between paddocks every 7-14 days so pasture can recover",
+		compactionFactor: 0.7,
+		regrowthFactor: 0.9,
+		organicMatterBonus: 0.1
+	},
+	Mob: {
+		name: "Mob",
+		description: "Dense herd moved daily with long rest periods, trampling litter into the soil",
+		compactionFactor: 0.5,
+		regrowthFactor: 1.0,
+		organicMatterBonus: 0.2
+	}
+};
+
+export const DEFAULT_LIVESTOCK_SPECIES = "Dairy Cattle";
+export const DEFAULT_GRAZING_STRATEGY = "Continuous";
+
+// Daily pasture growth (kg DM/ha) of a well-managed temperate sward at NDVI 0.7
+const PASTURE_GROWTH_KG_DM = 50;
+
+export function getLivestockSpecies(name?: string): LivestockSpeciesProfile {
+	return LIVESTOCK_SPECIES[name ?? ""] ?? LIVESTOCK_SPECIES[DEFAULT_LIVESTOCK_SPECIES];
+}
+
+export function getGrazingStrategy(name?: string): GrazingStrategyProfile {
+	return GRAZING_STRATEGIES[name ?? ""] ?? GRAZING_STRATEGIES[DEFAULT_GRAZING_STRATEGY];
+}
+
+// Per-hectare herd demands and outputs, and how hard the herd pushes the pasture
+export function assessHerd(choices: PlayerChoices, nasaData: NasaDataResponse): HerdAssessment {
+	const species = getLivestockSpecies(choices.livestockSpecies);
+	const strategy = getGrazingStrategy(choices.grazingStrategy);
+	const head = choices.livestockDensityPerHa;
+
+	const ndvi = nasaInput(nasaData, "modis.ndvi");
+	const pastureGrowth = PASTURE_GROWTH_KG_DM * strategy.regrowthFactor * Math.max(0.3, Math.min(1.3, ndvi / 0.7));
+	const forageDemand = head * species.forageDemandKgDm;
+	const grazingPressure = forageDemand / pastureGrowth;
+	// Grazing beyond regrowth leaves bare, trampled ground
+	const overgrazing = Math.max(0, grazingPressure - 1);
+
+	return {
+		species: species.name,
+		grazingStrategy: strategy.name,
+		head,
+		livestockUnitsPerHa: round2(head * species.livestockUnits),
+		forageDemandKgDmPerHaPerDay: round1(forageDemand),
+		pastureGrowthKgDmPerHaPerDay: round1(pastureGrowth),
+		grazingPressure: round2(grazingPressure),
+		waterUseLitresPerHaPerDay: round1(head * species.waterUseLitres),
+		entericMethaneKgPerHaPerYear: round1(head * species.entericMethaneKg),
+		manureNitrogenKgPerHaPerYear: round1(head * species.manureNitrogenKg),
+		manurePhosphorusKgPerHaPerYear: round1(head * species.manurePhosphorusKg),
+		compactionIndex: round2(head * species.livestockUnits * species.hoofImpact * strategy.compactionFactor * (1 + overgrazing)),
+		organicMatterBonus: head > 0 ? strategy.organicMatterBonus : 0
+	};
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,68 @@
+import { runComprehensiveSimulation } from "./engine";
+import type { MonteCarloResult, NasaDataResponse, PlayerChoices, ScoreDistribution, ScoreKey } from "./types";
+
+export const SCORE_KEYS: ScoreKey[] = [
+	"yieldScore",
+	"sustainabilityScore",
+	"soilHealthScore",
+	"waterEfficiencyScore",
+	"carbonFootprint",
+	"economicViability",
+	"waterQualityScore"
+];
+
+export const MAX_REALIZATIONS = 500;
+
+// Runs the scoring model once per weather realization and summarizes the spread of every score
+export async function runMonteCarloSimulation(
+	choices: PlayerChoices,
+	realizations: number,
+	sampleWeather: (realization: number) => Promise<NasaDataResponse>
+): Promise<MonteCarloResult> {
+	const runs = Math.max(1, Math.min(MAX_REALIZATIONS, Math.round(realizations)));
+	const samples = {} as Record<ScoreKey, number[]>;
+	SCORE_KEYS.forEach((key) => {
+		samples[key] = [];
+	});
+
+	for (let i = 0; i < runs; i++) {
+		const weather = await sampleWeather(i);
+		const result = await runComprehensiveSimulation(choices, weather);
+		SCORE_KEYS.forEach((key) => samples[key].push(result[key]));
+	}
+
+	const scores = {} as Record<ScoreKey, ScoreDistribution>;
+	SCORE_KEYS.forEach((key) => {
+		scores[key] = summarize(samples[key]);
+	});
+
+	return { realizations: runs, scores };
+}
+
+function summarize(values: number[]): ScoreDistribution {
+	const sorted = [...values].sort((a, b) => a - b);
+	const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+	const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+
+	return {
+		mean: round1(mean),
+		stdDev: round1(Math.sqrt(variance)),
+		p10: round1(percentile(sorted, 0.1)),
+		p50: round1(percentile(sorted, 0.5)),
+		p90: round1(percentile(sorted, 0.9)),
+		min: sorted[0],
+		max: sorted[sorted.length - 1]
+	};
+}
+
+// Linear interpolation between closest ranks
+function percentile(sorted: number[], fraction: number): number {
+	const rank = fraction * (sorted.length - 1);
+	const lower = Math.floor(rank);
+	const upper = Math.ceil(rank);
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
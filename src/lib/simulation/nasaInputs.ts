@@ -0,0 +1,44 @@
+import { defaultProvenance } from "@/lib/nasa/provenance";
+import type { DataProvenance } from "@/lib/nasa/types";
+import type { NasaDataResponse } from "./types";
+
+// Stand-ins the models assume when an observation is missing, typical of a temperate growing season
+export const NASA_INPUT_DEFAULTS = {
+	"power.temperature2m": 22, // °C
+	"power.precipitation": 50, // mm over the month, same as the GPM accumulation
+	"power.solarRadiation": 200, // W/m2
+	"power.humidity": 70, // %
+	"smap.soilMoistureSurface": 0.3, // m3/m3
+	"smap.soilMoistureRootZone": 0.3, // m3/m3
+	"smap.soilTemperature": 18, // °C
+	"modis.ndvi": 0.7,
+	"gpm.precipitationRate": 0, // mm/h, no wash-off from intense rain
+	"gpm.precipitationAccumulation": 50, // mm over the month
+	"drought.droughtIndex": 0.15 // no drought
+};
+
+export type NasaInput = keyof typeof NASA_INPUT_DEFAULTS;
+
+// One observation the models read, or its default when the data doesn't have it
+export function nasaInput(nasaData: NasaDataResponse | undefined, input: NasaInput): number {
+	const value = valueOf(nasaData, input);
+	return value ?? NASA_INPUT_DEFAULTS[input];
+}
+
+// Provenance with every default the models had to assume flagged as such
+export function withInputDefaults(provenance: DataProvenance, nasaData: NasaDataResponse | undefined): DataProvenance {
+	const flagged = structuredClone(provenance);
+	(Object.keys(NASA_INPUT_DEFAULTS) as NasaInput[])
+		.filter((input) => valueOf(nasaData, input) === undefined)
+		.forEach((input) => {
+			const [dataset, field] = input.split(".") as [keyof DataProvenance, string];
+			(flagged[dataset] ??= {})[field] = defaultProvenance(`Model default of ${NASA_INPUT_DEFAULTS[input]}`);
+		});
+	return flagged;
+}
+
+function valueOf(nasaData: NasaDataResponse | undefined, input: NasaInput): number | undefined {
+	const [dataset, field] = input.split(".");
+	const value = (nasaData?.data as Record<string, Record<string, unknown> | undefined> | undefined)?.[dataset]?.[field];
+	return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
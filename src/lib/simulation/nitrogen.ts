@@ -0,0 +1,101 @@
+import { getCrop } from "./crops";
+import type { FarmingMethodProfile } from "./farmingMethods";
+import { nasaInput } from "./nasaInputs";
+import { getSoil } from "./soils";
+import type { HerdAssessment, NasaDataResponse, NitrogenBalance, PlayerChoices, WaterBalanceSummary } from "./types";
+
+// Net N released per % soil organic matter per year at 20°C (kg N/ha)
+const MINERALIZATION_PER_PERCENT_OM = 20;
+// Urine share of excreted N: mineral and plant-available within the season; dung N stays organic
+const MANURE_AVAILABLE_FRACTION = 0.4;
+// Ammonia lost from surface-applied N at 20°C
+const VOLATILIZATION = { fertilizer: 0.1, manure: 0.2 };
+// Rain intensity (mm/h) above which surface-applied N starts washing off
+const HEAVY_RAIN_RATE_MM_PER_HOUR = 2;
+// Share of available mineral N that conventional roots capture; other methods scale from this
+const ROOT_CAPTURE = 0.7;
+const FARMING_METHOD_BASELINE_EFFICIENCY = 0.5;
+
+// Season-long mass balance: inputs either reach the crop, stay in the soil, or escape to water and air
+export function runNitrogenBalance(
+	choices: PlayerChoices,
+	nasaData: NasaDataResponse,
+	waterBalance: WaterBalanceSummary,
+	method: FarmingMethodProfile,
+	herd: HerdAssessment,
+	organicMatter: number
+): NitrogenBalance {
+	const crop = getCrop(choices.cropType);
+	const soil = getSoil(choices.soilType);
+	const seasonDays = crop.stageDays.reduce((sum, days) => sum + days, 0);
+	const seasonShare = seasonDays / 365;
+	const waterScale = seasonDays / waterBalance.days;
+	const temperature = nasaInput(nasaData, "power.temperature2m");
+
+	// Inputs
+	const fertilizerN = choices.fertilizerKgPerHa;
+	const manureN = herd.manureNitrogenKgPerHaPerYear * seasonShare;
+	// Soil microbes release N roughly twice as fast for every 10°C of warming
+	const mineralizationN = Math.max(0, organicMatter) * MINERALIZATION_PER_PERCENT_OM * seasonShare * 2 ** ((temperature - 20) / 10);
+
+	// Ammonia escapes from surface-applied N, faster in the heat
+	const heatFactor = clamp(1 + 0.03 * (temperature - 20), 0.5, 1.5);
+	const volatilization = (fertilizerN * VOLATILIZATION.fertilizer + manureN * VOLATILIZATION.manure) * heatFactor;
+
+	// Intense rain and surface runoff wash surface-applied N off the field
+	const rainRate = nasaInput(nasaData, "gpm.precipitationRate");
+	const waterInput = waterBalance.rainfallMm + waterBalance.irrigationMm;
+	const washOff = clamp(0.02 * (rainRate - HEAVY_RAIN_RATE_MM_PER_HOUR), 0, 0.15) +
+		(waterInput > 0 ? 0.5 * (waterBalance.runoffMm / waterInput) : 0);
+	const surfaceN = Math.max(0, fertilizerN + manureN * MANURE_AVAILABLE_FRACTION - volatilization);
+	const runoff = surfaceN * Math.min(1, washOff);
+
+	// Crops take up what they need, limited by what roots reach and by how much water moves through them
+	const availableN = surfaceN - runoff + mineralizationN;
+	const uptakeEfficiency = ROOT_CAPTURE * (method.fertilizerEfficiency / FARMING_METHOD_BASELINE_EFFICIENCY) ** 0.5;
+	const uptake = Math.min(crop.nitrogenDemandKgPerHa, availableN * Math.min(1, uptakeEfficiency) * (waterBalance.cropWaterSupply / 100));
+	const surplus = availableN - uptake;
+
+	// Wet, poorly aerated soil turns nitrate into N2O and N2
+	const denitrification = surplus * 0.2 * (soil.fieldCapacity / soil.saturation);
+
+	// Draining water displaces its share of the root-zone soil solution, nitrate included
+	const drainageMm = waterBalance.drainageMm * waterScale;
+	const rootZoneWaterMm = soil.fieldCapacity * crop.rootDepthM * 1000;
+	const leaching = (surplus - denitrification) * (drainageMm / (drainageMm + rootZoneWaterMm));
+	const residual = surplus - denitrification - leaching;
+
+	const totalInputs = fertilizerN + manureN + mineralizationN;
+
+	return {
+		seasonDays,
+		inputs: {
+			fertilizerKgPerHa: round1(fertilizerN),
+			manureKgPerHa: round1(manureN),
+			mineralizationKgPerHa: round1(mineralizationN)
+		},
+		cropDemandKgPerHa: crop.nitrogenDemandKgPerHa,
+		uptakeKgPerHa: round1(uptake),
+		losses: {
+			leachingKgPerHa: round1(leaching),
+			runoffKgPerHa: round1(runoff),
+			volatilizationKgPerHa: round1(volatilization),
+			denitrificationKgPerHa: round1(denitrification)
+		},
+		lostToWaterKgPerHa: round1(leaching + runoff),
+		lostToAirKgPerHa: round1(volatilization + denitrification),
+		residualKgPerHa: round1(residual),
+		// 1 kg/ha dissolved in 1 mm of water is 100 mg/L
+		nitrateInDrainageMgPerL: drainageMm > 0 ? round1((leaching * 100) / drainageMm) : 0,
+		nitrogenUseEfficiency: totalInputs > 0 ? round1((uptake / totalInputs) * 100) : 0,
+		demandMet: round1((uptake / crop.nitrogenDemandKgPerHa) * 100)
+	};
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,122 @@
+import { runComprehensiveSimulation } from "./engine";
+import type {
+	InputRange,
+	ManagementInputs,
+	NasaDataResponse,
+	ObjectiveKey,
+	ObjectiveWeights,
+	OptimizationCandidate,
+	OptimizationRanges,
+	OptimizationResult,
+	PlayerChoices
+} from "./types";
+
+// Defaults mirror the sliders on the simulate page
+export const DEFAULT_RANGES: OptimizationRanges = {
+	irrigationMmPerDay: { min: 0, max: 15, step: 1 },
+	fertilizerKgPerHa: { min: 0, max: 40, step: 5 },
+	livestockDensityPerHa: { min: 0, max: 8, step: 1 }
+};
+
+export const DEFAULT_WEIGHTS: ObjectiveWeights = {
+	yield: 1,
+	sustainability: 1,
+	waterEfficiency: 1,
+	economicViability: 1,
+	carbon: 1
+};
+
+export const MAX_EVALUATIONS = 5000;
+
+const OBJECTIVE_KEYS: ObjectiveKey[] = ["yield", "sustainability", "waterEfficiency", "economicViability", "carbon"];
+// Carbon footprint is the only objective where lower is better
+const MINIMIZED: ObjectiveKey[] = ["carbon"];
+
+// Counted without building the grid, so an absurdly fine step can be rejected cheaply
+export function countEvaluations(ranges: OptimizationRanges): number {
+	return Object.values(ranges).reduce((total, range) => total * countRangeValues(range), 1);
+}
+
+export function countRangeValues(range: InputRange): number {
+	return Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+}
+
+// Exhaustive grid search over the management inputs, scored with the regular simulation
+export async function optimizeManagement(
+	base: PlayerChoices,
+	ranges: OptimizationRanges,
+	weights: ObjectiveWeights,
+	nasaData: NasaDataResponse
+): Promise<OptimizationResult> {
+	const candidates: OptimizationCandidate[] = [];
+
+	for (const irrigationMmPerDay of rangeValues(ranges.irrigationMmPerDay)) {
+		for (const fertilizerKgPerHa of rangeValues(ranges.fertilizerKgPerHa)) {
+			for (const livestockDensityPerHa of rangeValues(ranges.livestockDensityPerHa)) {
+				const choices: ManagementInputs = { irrigationMmPerDay, fertilizerKgPerHa, livestockDensityPerHa };
+				const result = await runComprehensiveSimulation({ ...base, ...choices }, nasaData);
+				candidates.push({
+					choices,
+					objectives: {
+						yield: result.yieldScore,
+						sustainability: result.sustainabilityScore,
+						waterEfficiency: result.waterEfficiencyScore,
+						economicViability: result.economicViability,
+						carbon: result.carbonFootprint
+					},
+					weightedScore: 0
+				});
+			}
+		}
+	}
+
+	scoreCandidates(candidates, weights);
+	const paretoFront = candidates
+		.filter((candidate) => !candidates.some((other) => dominates(other, candidate)))
+		.sort((a, b) => b.weightedScore - a.weightedScore);
+
+	return {
+		evaluated: candidates.length,
+		best: paretoFront[0],
+		paretoFront
+	};
+}
+
+// Weighted sum of objectives rescaled to 0-1 over the evaluated set
+function scoreCandidates(candidates: OptimizationCandidate[], weights: ObjectiveWeights) {
+	const totalWeight = OBJECTIVE_KEYS.reduce((sum, key) => sum + weights[key], 0) || 1;
+
+	const bounds = {} as Record<ObjectiveKey, { min: number; max: number }>;
+	OBJECTIVE_KEYS.forEach((key) => {
+		const values = candidates.map((c) => c.objectives[key]);
+		bounds[key] = { min: Math.min(...values), max: Math.max(...values) };
+	});
+
+	candidates.forEach((candidate) => {
+		const score = OBJECTIVE_KEYS.reduce((sum, key) => {
+			const { min, max } = bounds[key];
+			const normalized = max > min ? (candidate.objectives[key] - min) / (max - min) : 1;
+			return sum + weights[key] * (MINIMIZED.includes(key) ? 1 - normalized : normalized);
+		}, 0);
+		candidate.weightedScore = Math.round((score / totalWeight) * 1000) / 10;
+	});
+}
+
+function dominates(a: OptimizationCandidate, b: OptimizationCandidate): boolean {
+	let strictlyBetter = false;
+	for (const key of OBJECTIVE_KEYS) {
+		const better = MINIMIZED.includes(key) ? a.objectives[key] < b.objectives[key] : a.objectives[key] > b.objectives[key];
+		const worse = MINIMIZED.includes(key) ? a.objectives[key] > b.objectives[key] : a.objectives[key] < b.objectives[key];
+		if (worse) return false;
+		if (better) strictlyBetter = true;
+	}
+	return strictlyBetter;
+}
+
+function rangeValues(range: InputRange): number[] {
+	const values: number[] = [];
+	for (let value = range.min; value <= range.max + 1e-9; value += range.step) {
+		values.push(Math.round(value * 100) / 100);
+	}
+	return values;
+}
@@ -0,0 +1,154 @@
+import { getCrop, type CropProfile } from "./crops";
+import { nasaInput } from "./nasaInputs";
+import type { NasaDataResponse, PestAssessment, PestRiskLevel, PlayerChoices } from "./types";
+
+export type PestControlProfile = {
+	name: string;
+	description: string;
+	insectEfficacy: number; // share of insect damage prevented
+	diseaseEfficacy: number; // share of disease damage prevented
+	costPerHa: number; // USD per season
+	sustainabilityImpact: number; // points added to or taken from sustainability
+	yieldDrag: number; // yield given up even when pests stay away
+};
+
+export const PEST_CONTROLS: Record<string, PestControlProfile> = {
+	None: {
+		name: "None",
+		description: "No crop protection: whatever pests and disease arrive take their share",
+		insectEfficacy: 0,
+		diseaseEfficacy: 0,
+		costPerHa: 0,
+		sustainabilityImpact: 0,
+		yieldDrag: 0
+	},
+	IPM: {
+		name: "IPM",
+		description: "Integrated pest management: scout fields and treat only above economic thresholds",
+		insectEfficacy: 0.6,
+		diseaseEfficacy: 0.5,
+		costPerHa: 40,
+		sustainabilityImpact: 3,
+		yieldDrag: 0
+	},
+	"Calendar Spraying": {
+		name: "Calendar Spraying",
+		description: "Insecticide and fungicide on a fixed schedule whether pests are present or not",
+		insectEfficacy: 0.9,
+		diseaseEfficacy: 0.85,
+		costPerHa: 120,
+		sustainabilityImpact: -12,
+		yieldDrag: 0
+	},
+	"Resistant Varieties": {
+		name: "Resistant Varieties",
+		description: "Seed bred to resist the main disease, at a small yield cost in clean years",
+		insectEfficacy: 0.3,
+		diseaseEfficacy: 0.75,
+		costPerHa: 30,
+		sustainabilityImpact: 0,
+		yieldDrag: 0.03
+	}
+};
+
+export const DEFAULT_PEST_CONTROL = "None";
+
+// Leaf wetness below this many hours a day rarely lets spores infect
+const INFECTION_WETNESS_HOURS = 6;
+// Wetness at which every spore landing on a leaf can infect
+const SATURATING_WETNESS_HOURS = 18;
+// Disease pressure fades over this many degrees outside the favorable temperature range
+const TEMPERATURE_TAPER_C = 5;
+
+export function getPestControl(name?: string): PestControlProfile {
+	return PEST_CONTROLS[name ?? ""] ?? PEST_CONTROLS[DEFAULT_PEST_CONTROL];
+}
+
+export function insectDegreeDays(crop: CropProfile, temperatureC: number): number {
+	return Math.max(0, temperatureC - crop.pests.insect.baseTempC);
+}
+
+// Hours a day that leaves stay wet: humid nights bring dew and rain days keep canopies wet for hours
+export function leafWetnessHours(humidity: number, rainfallMm: number): number {
+	return clamp((24 * (humidity - 60)) / 35 + Math.min(6, rainfallMm), 0, 24);
+}
+
+// 0-1 chance that today's weather lets the crop's main disease infect
+export function diseaseFavorability(crop: CropProfile, temperatureC: number, wetnessHours: number): number {
+	const { minTempC, maxTempC } = crop.pests.disease;
+	const outside = Math.max(minTempC - temperatureC, temperatureC - maxTempC, 0);
+	const temperatureFactor = clamp(1 - outside / TEMPERATURE_TAPER_C, 0, 1);
+	const wetnessFactor = clamp((wetnessHours - INFECTION_WETNESS_HOURS) / (SATURATING_WETNESS_HOURS - INFECTION_WETNESS_HOURS), 0, 1);
+	return temperatureFactor * wetnessFactor;
+}
+
+// Season-long risk and yield loss from accumulated degree days and average disease favorability
+export function summarizePestPressure(
+	choices: PlayerChoices,
+	degreeDays: number,
+	averageWetnessHours: number,
+	averageFavorability: number
+): PestAssessment {
+	const crop = getCrop(choices.cropType);
+	const control = getPestControl(choices.pestControl);
+	const generations = degreeDays / crop.pests.insect.degreeDaysPerGeneration;
+	// Each extra generation builds on the survivors of the last
+	const insectRisk = 1 - Math.exp(-generations / 3);
+	const diseaseRisk = averageFavorability;
+
+	const insectLoss = insectRisk * crop.pests.insect.maxYieldLoss;
+	const diseaseLoss = diseaseRisk * crop.pests.disease.maxYieldLoss;
+	const unprotectedLoss = 1 - (1 - insectLoss) * (1 - diseaseLoss);
+	const protectedLoss = 1 -
+		(1 - insectLoss * (1 - control.insectEfficacy)) *
+		(1 - diseaseLoss * (1 - control.diseaseEfficacy)) *
+		(1 - control.yieldDrag);
+
+	return {
+		control: control.name,
+		insect: {
+			name: crop.pests.insect.name,
+			degreeDays: Math.round(degreeDays),
+			generations: round1(generations),
+			risk: Math.round(insectRisk * 100),
+			riskLevel: riskLevel(insectRisk)
+		},
+		disease: {
+			name: crop.pests.disease.name,
+			leafWetnessHours: round1(averageWetnessHours),
+			risk: Math.round(diseaseRisk * 100),
+			riskLevel: riskLevel(diseaseRisk)
+		},
+		unprotectedLossPercent: round1(unprotectedLoss * 100),
+		yieldLossPercent: round1(protectedLoss * 100)
+	};
+}
+
+// Snapshot pressure: the current weather held for the whole growing season
+export function assessPestPressure(choices: PlayerChoices, nasaData: NasaDataResponse): PestAssessment {
+	const crop = getCrop(choices.cropType);
+	const seasonDays = crop.stageDays.reduce((total, days) => total + days, 0);
+	const temperature = nasaInput(nasaData, "power.temperature2m");
+	const humidity = nasaInput(nasaData, "power.humidity");
+	// Monthly rainfall spread evenly over the days of the month
+	const wetness = leafWetnessHours(humidity, nasaInput(nasaData, "power.precipitation") / 30);
+
+	return summarizePestPressure(
+		choices,
+		insectDegreeDays(crop, temperature) * seasonDays,
+		wetness,
+		diseaseFavorability(crop, temperature, wetness)
+	);
+}
+
+function riskLevel(risk: number): PestRiskLevel {
+	return risk > 0.6 ? "High" : risk > 0.3 ? "Moderate" : "Low";
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,100 @@
+import { createRandom, deriveSeed } from "@/lib/random";
+import { getCrop } from "./crops";
+import { runComprehensiveSimulation } from "./engine";
+import { SCORE_KEYS } from "./monteCarlo";
+import { applyScenarioToNasaData, eventWindow } from "./scenarios";
+import { runSeasonSimulation } from "./season";
+import type {
+	NasaDataResponse,
+	PlayerChoices,
+	ScenarioEvent,
+	ScenarioEventReport,
+	ScenarioReport,
+	ScoreKey,
+	SeasonDay,
+	SeasonResult
+} from "./types";
+
+// A day counts as recovered once stress is within this margin of the undisturbed season...
+const RECOVERED_STRESS_MARGIN = 0.05;
+// ...and the canopy has grown back to this share of the undisturbed canopy
+const RECOVERED_CANOPY_SHARE = 0.95;
+
+// Damage and recovery from injected events, measured against the same season without them
+export async function runScenarioAnalysis(
+	choices: PlayerChoices,
+	nasaData: NasaDataResponse,
+	events: ScenarioEvent[],
+	seed: number
+): Promise<ScenarioReport> {
+	const crop = getCrop(choices.cropType);
+	// Every run replays the same weather draws so only the injected events differ
+	const runSeason = (injected: ScenarioEvent[]) =>
+		runSeasonSimulation(choices, nasaData, createRandom(deriveSeed(seed, "season")), injected);
+
+	const baselineSnapshot = await runComprehensiveSimulation(choices, nasaData);
+	const stressedSnapshot = await runComprehensiveSimulation(choices, applyScenarioToNasaData(nasaData, events, crop));
+	const baselineScores = {} as Record<ScoreKey, number>;
+	const scoreChange = {} as Record<ScoreKey, number>;
+	SCORE_KEYS.forEach((key) => {
+		baselineScores[key] = baselineSnapshot[key];
+		scoreChange[key] = stressedSnapshot[key] - baselineSnapshot[key];
+	});
+
+	const baseline = runSeason([]);
+	const stressed = runSeason(events);
+
+	const reports = events.map((event): ScenarioEventReport => {
+		const { startDay, endDay } = eventWindow(event, crop);
+		const alone = runSeason([event]);
+		// Canopy stripped by hail counts alongside the weather stresses
+		const windowStress = alone.daily.slice(startDay - 1, endDay).map((day, i) => {
+			const canopyShare = Math.min(1, day.canopyCover / Math.max(0.01, baseline.daily[startDay - 1 + i].canopyCover));
+			return 1 - (1 - combinedStress(day)) * canopyShare;
+		});
+
+		return {
+			name: event.name ?? event.type,
+			type: event.type,
+			severity: event.severity,
+			startDay,
+			endDay,
+			yieldLossTPerHa: round2(baseline.finalYieldTPerHa - alone.finalYieldTPerHa),
+			yieldLossPercent: lossPercent(baseline, alone),
+			peakStress: Math.round(Math.max(0, ...windowStress) * 100),
+			recoveryDays: recoveryDays(baseline.daily, alone.daily, endDay)
+		};
+	});
+
+	return {
+		events: reports,
+		baselineScores,
+		scoreChange,
+		baselineYieldTPerHa: baseline.finalYieldTPerHa,
+		stressedYieldTPerHa: stressed.finalYieldTPerHa,
+		yieldLossPercent: lossPercent(baseline, stressed)
+	};
+}
+
+// Days after the event ends until stress and canopy are back in line with the undisturbed season
+function recoveryDays(baseline: SeasonDay[], disturbed: SeasonDay[], endDay: number): number | null {
+	for (let i = endDay; i < disturbed.length; i++) {
+		const stressRecovered = combinedStress(disturbed[i]) <= combinedStress(baseline[i]) + RECOVERED_STRESS_MARGIN;
+		const canopyRecovered = disturbed[i].canopyCover >= baseline[i].canopyCover * RECOVERED_CANOPY_SHARE;
+		if (stressRecovered && canopyRecovered) return disturbed[i].day - endDay;
+	}
+	return null;
+}
+
+function combinedStress(day: SeasonDay): number {
+	return 1 - (1 - day.waterStress) * (1 - day.heatStress) * (1 - day.waterloggingStress);
+}
+
+function lossPercent(baseline: SeasonResult, disturbed: SeasonResult): number {
+	if (baseline.finalYieldTPerHa <= 0) return 0;
+	return Math.round((1 - disturbed.finalYieldTPerHa / baseline.finalYieldTPerHa) * 1000) / 10;
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
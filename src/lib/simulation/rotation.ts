@@ -0,0 +1,206 @@
+import { getCrop } from "./crops";
+import { buildFarmBudget } from "./economics";
+import { calculateEconomicViability, runComprehensiveSimulation } from "./engine";
+import { getFarmingMethod } from "./farmingMethods";
+import type {
+	NasaDataResponse,
+	PlayerChoices,
+	RotationPlanYear,
+	RotationResult,
+	RotationYearResult,
+	SoilCarryOver
+} from "./types";
+
+type CoverCropTraits = {
+	description: string;
+	nitrogenFixation: number; // kg N/ha added for the next crop
+	nitrogenRetention: number; // multiplier on leftover nitrate kept from leaching
+	organicMatter: number;
+	compactionRelief: number;
+	sustainabilityBonus: number;
+};
+
+export const COVER_CROPS: Record<string, CoverCropTraits> = {
+	None: {
+		description: "Bare fallow between cash crops",
+		nitrogenFixation: 0,
+		nitrogenRetention: 1,
+		organicMatter: 0,
+		compactionRelief: 0,
+		sustainabilityBonus: 0
+	},
+	Clover: {
+		description: "Legume cover that fixes nitrogen for the next crop",
+		nitrogenFixation: 50,
+		nitrogenRetention: 1,
+		organicMatter: 0.04,
+		compactionRelief: 4,
+		sustainabilityBonus: 4
+	},
+	Rye: {
+		description: "Cereal cover that scavenges leftover nitrate and adds residue",
+		nitrogenFixation: 0,
+		nitrogenRetention: 1.5,
+		organicMatter: 0.07,
+		compactionRelief: 6,
+		sustainabilityBonus: 4
+	},
+	Radish: {
+		description: "Deep taproots break up compacted layers",
+		nitrogenFixation: 0,
+		nitrogenRetention: 1.2,
+		organicMatter: 0.03,
+		compactionRelief: 15,
+		sustainabilityBonus: 3
+	}
+};
+
+const INITIAL_SOIL: SoilCarryOver = {
+	residualNitrogenKgPerHa: 20,
+	pestPressure: 0.1,
+	organicMatter: 2.5,
+	compaction: 10
+};
+
+export async function runRotationSimulation(
+	choices: PlayerChoices,
+	plan: RotationPlanYear[],
+	nasaData: NasaDataResponse,
+	years: number = plan.length
+): Promise<RotationResult> {
+	const rotation = await simulateSequence(choices, plan, nasaData, years);
+
+	// Same number of years growing only the first crop, for comparison
+	const monocultureCrop = plan[0]?.cropType ?? choices.cropType ?? "Corn";
+	const monoculture = await simulateSequence(choices, [{ cropType: monocultureCrop }], nasaData, years);
+
+	return {
+		years: rotation.years,
+		soilHealthTrend: rotation.trend,
+		averageYieldScore: averageYield(rotation.years),
+		totalEconomicViability: totalEconomics(rotation.years),
+		monoculture: {
+			cropType: monocultureCrop,
+			averageYieldScore: averageYield(monoculture.years),
+			totalEconomicViability: totalEconomics(monoculture.years),
+			finalOrganicMatter: monoculture.trend[monoculture.trend.length - 1]?.organicMatter ?? INITIAL_SOIL.organicMatter
+		}
+	};
+}
+
+async function simulateSequence(
+	choices: PlayerChoices,
+	plan: RotationPlanYear[],
+	nasaData: NasaDataResponse,
+	years: number
+): Promise<{ years: RotationYearResult[]; trend: RotationResult["soilHealthTrend"] }> {
+	const method = getFarmingMethod(choices.farmingMethod);
+	const soil: SoilCarryOver = { ...INITIAL_SOIL };
+	const results: RotationYearResult[] = [];
+	const trend: RotationResult["soilHealthTrend"] = [];
+	let previousCrop: string | undefined;
+
+	for (let i = 0; i < years; i++) {
+		const planned = plan[i % plan.length];
+		const traits = getCrop(planned.cropType).rotation;
+		const previousTraits = previousCrop ? getCrop(previousCrop).rotation : undefined;
+		const coverCrop = planned.coverCrop && COVER_CROPS[planned.coverCrop] ? planned.coverCrop : "None";
+		const cover = COVER_CROPS[coverCrop];
+		const yearChoices: PlayerChoices = { ...choices, cropType: planned.cropType };
+		const base = await runComprehensiveSimulation(yearChoices, nasaData);
+
+		// Pests and diseases build up when a host follows itself; a break crop starves them out
+		const sameHost = previousTraits?.pestGroup === traits.pestGroup;
+		soil.pestPressure = sameHost ? Math.min(1, soil.pestPressure + 0.25) : Math.max(0.05, soil.pestPressure * 0.3);
+		const soilAtPlanting = roundSoil(soil);
+
+		const nitrogenCredit = Math.min(0.12, soil.residualNitrogenKgPerHa / 400);
+		const pestPenalty = 0.3 * soil.pestPressure;
+		const organicMatterEffect = (soil.organicMatter - INITIAL_SOIL.organicMatter) * 0.05;
+		const compactionPenalty = soil.compaction / 400;
+		const yieldFactor = (1 + nitrogenCredit) * (1 - pestPenalty) * (1 + organicMatterEffect) * (1 - compactionPenalty);
+
+		const rotationEffects: string[] = [];
+		if (nitrogenCredit >= 0.05) {
+			const origin = i === 0 ? "already in the soil at the start" : "carried over from last season";
+			rotationEffects.push(`Nitrogen credit of ${Math.round(soil.residualNitrogenKgPerHa)} kg N/ha ${origin}`);
+		}
+		if (sameHost && soil.pestPressure >= 0.3) {
+			rotationEffects.push(`${planned.cropType} after ${previousCrop} lets pests and disease build up (${Math.round(soil.pestPressure * 100)}% pressure)`);
+		} else if (previousTraits && !sameHost) {
+			rotationEffects.push(`Switching from ${previousCrop} breaks pest and disease cycles`);
+		}
+		if (compactionPenalty > 0.05) {
+			rotationEffects.push("Accumulated compaction is restricting root growth");
+		}
+		if (coverCrop !== "None") {
+			rotationEffects.push(`${coverCrop} cover crop: ${cover.description.toLowerCase()}`);
+		}
+
+		const yieldScore = base.yieldScore * yieldFactor;
+		const soilHealthScore = clamp(
+			base.soilHealthScore + (soil.organicMatter - INITIAL_SOIL.organicMatter) * 20 - soil.compaction * 0.2,
+			0,
+			100
+		);
+		const sustainabilityScore = clamp(base.sustainabilityScore + cover.sustainabilityBonus + (sameHost ? 0 : 2), 0, 100);
+
+		results.push({
+			year: i + 1,
+			cropType: planned.cropType,
+			coverCrop,
+			yieldScore: Math.round(yieldScore),
+			sustainabilityScore: Math.round(sustainabilityScore),
+			soilHealthScore: Math.round(soilHealthScore),
+			economicViability: Math.round(calculateEconomicViability(buildFarmBudget(yearChoices, yieldScore, base.livestockImpact.herd)).value),
+			carbonFootprint: base.carbonFootprint,
+			rotationEffects,
+			soilAtPlanting,
+			soilHealthMetrics: {
+				...base.soilHealthMetrics,
+				organicMatter: soilAtPlanting.organicMatter,
+				compactionRisk: soil.compaction > 40 ? "High" : soil.compaction > 20 ? "Moderate" : "Low"
+			}
+		});
+
+		// Carry-over into the next season: nitrate the crop left behind plus what its residue releases
+		const leftoverNitrate = base.nitrogenBalance.residualKgPerHa;
+		soil.residualNitrogenKgPerHa = (leftoverNitrate + traits.residualNitrogen) * cover.nitrogenRetention + cover.nitrogenFixation;
+		soil.organicMatter += method.organicMatterTrend + traits.residueOrganicMatter + cover.organicMatter;
+		soil.compaction = clamp(
+			soil.compaction +
+				base.livestockImpact.herd.compactionIndex * method.compactionFactor * 2 +
+				(method.compactionFactor > 1 ? 3 : 0) -
+				cover.compactionRelief -
+				traits.rootingRelief,
+			0,
+			100
+		);
+		previousCrop = planned.cropType;
+
+		trend.push({ year: i + 1, ...roundSoil(soil), soilHealthScore: Math.round(soilHealthScore) });
+	}
+
+	return { years: results, trend };
+}
+
+function averageYield(years: RotationYearResult[]): number {
+	return years.length > 0 ? Math.round(years.reduce((sum, y) => sum + y.yieldScore, 0) / years.length) : 0;
+}
+
+function totalEconomics(years: RotationYearResult[]): number {
+	return years.reduce((sum, y) => sum + y.economicViability, 0);
+}
+
+function roundSoil(soil: SoilCarryOver): SoilCarryOver {
+	return {
+		residualNitrogenKgPerHa: Math.round(soil.residualNitrogenKgPerHa),
+		pestPressure: Math.round(soil.pestPressure * 100) / 100,
+		organicMatter: Math.round(soil.organicMatter * 100) / 100,
+		compaction: Math.round(soil.compaction)
+	};
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
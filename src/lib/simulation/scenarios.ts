@@ -0,0 +1,217 @@
+import { getDroughtCategory } from "@/lib/nasa/syntheticClimate";
+import { checkNumber, checkObject, checkOption, type FieldError } from "@/lib/validation";
+import type { CropProfile } from "./crops";
+import { NASA_INPUT_DEFAULTS as DEFAULTS } from "./nasaInputs";
+import type { HeatSpell, NasaDataResponse, ScenarioEvent, ScenarioEventType, ScenarioSeverity } from "./types";
+
+type EventEffect = {
+	description: string;
+	temperatureDeltaC: number; // added to the daily temperature
+	heatExcessC: number; // hottest days reach at least this far past the crop's heat threshold
+	rainfallFactor: number; // multiplier on the day's natural rain
+	extraRainfallMm: number; // total extra rain spread over the event
+	solarFactor: number; // multiplier on incoming radiation
+	canopyDamage: number; // share of the canopy and standing biomass destroyed on the first day
+	soilDrying: number; // share of plant-available water the dry air pulls from the root zone each day
+};
+
+type ScaledEffect = Omit<EventEffect, "description">;
+
+export type WeatherAdjustment = Omit<ScaledEffect, "heatExcessC"> & {
+	minimumTemperatureC: number; // floor on the day's temperature, set by heat events
+};
+
+// Effects of a severe event; milder events scale every departure from normal weather down
+export const EVENT_EFFECTS: Record<ScenarioEventType, EventEffect> = {
+	drought: {
+		description: "Rain fails and dry air pulls the soil down toward wilting point",
+		temperatureDeltaC: 0,
+		heatExcessC: 0,
+		rainfallFactor: 0,
+		extraRainfallMm: 0,
+		solarFactor: 1,
+		canopyDamage: 0,
+		soilDrying: 0.1
+	},
+	heatwave: {
+		description: "Days run far hotter than normal under clear skies, past the crop's heat threshold",
+		temperatureDeltaC: 10,
+		heatExcessC: 6,
+		rainfallFactor: 0.5,
+		extraRainfallMm: 0,
+		solarFactor: 1.05,
+		canopyDamage: 0,
+		soilDrying: 0.02
+	},
+	flood: {
+		description: "Torrential rain saturates the field under heavy cloud",
+		temperatureDeltaC: -2,
+		heatExcessC: 0,
+		rainfallFactor: 1,
+		extraRainfallMm: 150,
+		solarFactor: 0.5,
+		canopyDamage: 0,
+		soilDrying: 0
+	},
+	hail: {
+		description: "Hailstones shred leaves and knock down standing crop",
+		temperatureDeltaC: -3,
+		heatExcessC: 0,
+		rainfallFactor: 1,
+		extraRainfallMm: 20,
+		solarFactor: 0.7,
+		canopyDamage: 0.5,
+		soilDrying: 0
+	}
+};
+
+export const SEVERITY_SCALE: Record<ScenarioSeverity, number> = { mild: 0.4, moderate: 0.7, severe: 1 };
+
+export const SCENARIO_PRESETS: Record<string, ScenarioEvent> = {
+	"Flowering heatwave": { name: "Flowering heatwave", type: "heatwave", severity: "severe", stage: "Flowering", durationDays: 21 },
+	"Flash flood in week 6": { name: "Flash flood in week 6", type: "flood", severity: "severe", startDay: 36, durationDays: 1 },
+	"Early-season drought": { name: "Early-season drought", type: "drought", severity: "moderate", stage: "Development", durationDays: 30 },
+	"Prolonged drought": { name: "Prolonged drought", type: "drought", severity: "severe", startDay: 1, durationDays: 60 },
+	"Hailstorm at grain fill": { name: "Hailstorm at grain fill", type: "hail", severity: "severe", stage: "Late-season", durationDays: 1 }
+};
+
+// Each event replays the whole season once more, so the list stays short
+export const MAX_SCENARIO_EVENTS = 10;
+
+const EVENT_STAGES = ["Initial", "Development", "Mid-season", "Flowering", "Late-season"];
+// Longest growing season in the crop library, with room to spare
+const MAX_EVENT_DAYS = 366;
+// Snapshot scores describe a representative month
+const SNAPSHOT_DAYS = 30;
+
+// Preset names and event objects the scenario cannot use, one entry per bad field
+export function invalidScenarioEvents(events: unknown[]): FieldError[] {
+	return events.flatMap((event, i): FieldError[] => {
+		const field = `scenario[${i}]`;
+		if (typeof event === "string") {
+			return SCENARIO_PRESETS[event] ? [] : [{ field, message: `must be a preset (${Object.keys(SCENARIO_PRESETS).join(", ")}) or an event` }];
+		}
+		const errors: FieldError[] = [];
+		if (!checkObject(errors, field, event, true)) return errors;
+		checkOption(errors, `${field}.type`, event.type, Object.keys(EVENT_EFFECTS), true);
+		checkOption(errors, `${field}.severity`, event.severity, Object.keys(SEVERITY_SCALE), true);
+		checkNumber(errors, `${field}.durationDays`, event.durationDays, { min: 1, max: MAX_EVENT_DAYS, unit: "days", required: true });
+		checkNumber(errors, `${field}.startDay`, event.startDay, { min: 1, max: MAX_EVENT_DAYS, integer: true });
+		checkOption(errors, `${field}.stage`, event.stage, EVENT_STAGES);
+		if (event.startDay === undefined && event.stage === undefined) errors.push({ field, message: "needs a startDay or stage" });
+		return errors;
+	});
+}
+
+export function resolveScenarioEvents(events: (string | ScenarioEvent)[]): ScenarioEvent[] {
+	return events.map((event, i) => {
+		const resolved = typeof event === "string" ? SCENARIO_PRESETS[event] : event;
+		return { ...resolved, name: resolved.name ?? `${resolved.severity} ${resolved.type} ${i + 1}` };
+	});
+}
+
+// First and last season day the event covers
+export function eventWindow(event: ScenarioEvent, crop: CropProfile): { startDay: number; endDay: number } {
+	const seasonDays = crop.stageDays.reduce((total, days) => total + days, 0);
+	const [initial, development, mid] = crop.stageDays;
+	const stageStart = {
+		Initial: 1,
+		Development: initial + 1,
+		"Mid-season": initial + development + 1,
+		Flowering: initial + development + 1,
+		"Late-season": initial + development + mid + 1
+	};
+	const startDay = Math.min(seasonDays, Math.max(1, Math.round(event.startDay ?? stageStart[event.stage ?? "Initial"])));
+	return { startDay, endDay: Math.min(seasonDays, startDay + Math.round(event.durationDays) - 1) };
+}
+
+// Combined departure from normal weather on one season day
+export function dailyWeatherAdjustment(events: ScenarioEvent[], crop: CropProfile, day: number): WeatherAdjustment {
+	const adjustment: WeatherAdjustment = {
+		temperatureDeltaC: 0,
+		minimumTemperatureC: -Infinity,
+		rainfallFactor: 1,
+		extraRainfallMm: 0,
+		solarFactor: 1,
+		canopyDamage: 0,
+		soilDrying: 0
+	};
+	events.forEach((event) => {
+		const { startDay, endDay } = eventWindow(event, crop);
+		if (day < startDay || day > endDay) return;
+		const effect = scaledEffect(event);
+		adjustment.temperatureDeltaC += effect.temperatureDeltaC;
+		if (effect.heatExcessC > 0) {
+			adjustment.minimumTemperatureC = Math.max(adjustment.minimumTemperatureC, crop.heatThresholdC + effect.heatExcessC);
+		}
+		adjustment.rainfallFactor *= effect.rainfallFactor;
+		adjustment.extraRainfallMm += effect.extraRainfallMm / (endDay - startDay + 1);
+		adjustment.solarFactor *= effect.solarFactor;
+		if (day === startDay) adjustment.canopyDamage = 1 - (1 - adjustment.canopyDamage) * (1 - effect.canopyDamage);
+		adjustment.soilDrying = 1 - (1 - adjustment.soilDrying) * (1 - effect.soilDrying);
+	});
+	return adjustment;
+}
+
+// Snapshot drivers with each event weighted by the share of the month it lasts
+export function applyScenarioToNasaData<T extends NasaDataResponse>(nasaData: T, events: ScenarioEvent[], crop: CropProfile): T {
+	if (events.length === 0) return nasaData;
+	const data = structuredClone(nasaData?.data ?? {});
+	const power = (data.power ??= {});
+	const smap = (data.smap ??= {});
+	const modis = (data.modis ??= {});
+	const gpm = (data.gpm ??= {});
+	const drought = (data.drought ??= {});
+	let heatSpell: HeatSpell | undefined = nasaData.heatSpell;
+
+	events.forEach((event) => {
+		const effect = scaledEffect(event);
+		const share = Math.min(1, event.durationDays / SNAPSHOT_DAYS);
+		const wetting = effect.extraRainfallMm / 150;
+		const drying = (1 - effect.rainfallFactor) * share;
+		// Share of the root-zone water the dry air takes over the days of the event within the month
+		const dried = 1 - Math.pow(1 - effect.soilDrying, Math.min(event.durationDays, SNAPSHOT_DAYS));
+		const temperature = power.temperature2m ?? DEFAULTS["power.temperature2m"];
+
+		// Warming a cool month's mean would read as better growing weather, so hot days are kept apart as a heat spell
+		if (effect.temperatureDeltaC > 0 || effect.heatExcessC > 0) {
+			const hotDayC = Math.max(temperature + effect.temperatureDeltaC, crop.heatThresholdC + effect.heatExcessC);
+			heatSpell = {
+				days: Math.min(SNAPSHOT_DAYS, (heatSpell?.days ?? 0) + Math.round(event.durationDays)),
+				temperatureC: Math.max(heatSpell?.temperatureC ?? -Infinity, hotDayC)
+			};
+		} else {
+			power.temperature2m = temperature + effect.temperatureDeltaC * share;
+		}
+		power.precipitation = (power.precipitation ?? DEFAULTS["power.precipitation"]) * (1 - drying) + effect.extraRainfallMm;
+		power.solarRadiation = (power.solarRadiation ?? DEFAULTS["power.solarRadiation"]) * (1 + (effect.solarFactor - 1) * share);
+		smap.soilMoistureSurface = clamp((smap.soilMoistureSurface ?? DEFAULTS["smap.soilMoistureSurface"]) + 0.15 * wetting - 0.15 * drying, 0.05, 0.5);
+		smap.soilMoistureRootZone = clamp((smap.soilMoistureRootZone ?? DEFAULTS["smap.soilMoistureRootZone"]) * (1 - dried) + 0.1 * wetting - 0.1 * drying, 0.05, 0.5);
+		modis.ndvi = clamp((modis.ndvi ?? DEFAULTS["modis.ndvi"]) * (1 - effect.canopyDamage - 0.2 * drying), 0.05, 1);
+		// Cloudbursts dump the extra rain in a few hours
+		gpm.precipitationRate = (gpm.precipitationRate ?? DEFAULTS["gpm.precipitationRate"]) + effect.extraRainfallMm / 6;
+		gpm.precipitationAccumulation = (gpm.precipitationAccumulation ?? DEFAULTS["gpm.precipitationAccumulation"]) * (1 - drying) + effect.extraRainfallMm;
+		drought.droughtIndex = clamp((drought.droughtIndex ?? DEFAULTS["drought.droughtIndex"]) + 0.4 * drying, 0, 1);
+		drought.droughtCategory = getDroughtCategory(drought.droughtIndex);
+	});
+
+	return { ...nasaData, data, ...(heatSpell && { heatSpell }) };
+}
+
+function scaledEffect(event: ScenarioEvent): ScaledEffect {
+	const effect = EVENT_EFFECTS[event.type];
+	const scale = SEVERITY_SCALE[event.severity];
+	return {
+		temperatureDeltaC: effect.temperatureDeltaC * scale,
+		heatExcessC: effect.heatExcessC * scale,
+		rainfallFactor: 1 - (1 - effect.rainfallFactor) * scale,
+		extraRainfallMm: effect.extraRainfallMm * scale,
+		solarFactor: 1 - (1 - effect.solarFactor) * scale,
+		canopyDamage: effect.canopyDamage * scale,
+		soilDrying: effect.soilDrying * scale
+	};
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,244 @@
+import type { Random } from "@/lib/random";
+import { getCrop, heatStressAt, temperatureFactor, type CropProfile } from "./crops";
+import { getFarmingMethod } from "./farmingMethods";
+import { nasaInput } from "./nasaInputs";
+import { diseaseFavorability, insectDegreeDays, leafWetnessHours, summarizePestPressure } from "./pests";
+import { dailyWeatherAdjustment } from "./scenarios";
+import { availableWater, createReservoir, drySoil, saturationExcess, stepSoilWater, waterStressCoefficient } from "./soilWater";
+import { getSoil } from "./soils";
+import type { GrowthStage, NasaDataResponse, PlayerChoices, ScenarioEvent, SeasonDay, SeasonResult } from "./types";
+
+type DailyWeather = {
+	temperatureC: number;
+	rainfallMm: number;
+	solarMj: number;
+	referenceEtMm: number;
+	canopyDamage: number; // share of canopy and biomass knocked out today
+	soilDrying: number; // share of plant-available water lost to dry air today
+};
+
+const STAGES: GrowthStage[] = ["Initial", "Development", "Mid-season", "Late-season"];
+const FLOWERING_WINDOW_DAYS = 15;
+// Seasonal N demand (corn) the fertilizer response was tuned for; hungrier crops need more per point
+const REFERENCE_NITROGEN_DEMAND = 180;
+// Share of lost canopy the crop grows back each day after hail
+const CANOPY_REGROWTH_PER_DAY = 0.1;
+
+export function runSeasonSimulation(
+	choices: PlayerChoices,
+	nasaData: NasaDataResponse,
+	random: Random,
+	events: ScenarioEvent[] = []
+): SeasonResult {
+	const crop = getCrop(choices.cropType);
+	const cropType = crop.name;
+	const seasonDays = crop.stageDays.reduce((sum, days) => sum + days, 0);
+	const floweringStart = crop.stageDays[0] + crop.stageDays[1];
+	const weather = generateSeasonWeather(crop, seasonDays, nasaData, random, events);
+
+	// Root-zone reservoir sized from soil texture and crop rooting depth
+	const soil = getSoil(choices.soilType);
+	const reservoir = createReservoir(soil, crop.rootDepthM, nasaInput(nasaData, "smap.soilMoistureRootZone"));
+
+	const method = getFarmingMethod(choices.farmingMethod);
+	const nitrogenResponse = 0.04 * (REFERENCE_NITROGEN_DEMAND / crop.nitrogenDemandKgPerHa);
+	let nitrogenIndex = Math.min(1, 0.6 + choices.fertilizerKgPerHa * nitrogenResponse * method.fertilizerEfficiency);
+	let biomass = 0; // g/m2
+	let potentialBiomass = 0;
+	let canopyLoss = 0;
+	const floweringWaterStress: number[] = [];
+	const floweringHeatStress: number[] = [];
+	const stageStressTotals = { Initial: 0, Development: 0, "Mid-season": 0, "Late-season": 0 };
+	const totals = { rainfallMm: 0, irrigationMm: 0, actualEtMm: 0, runoffMm: 0, drainageMm: 0, deepPercolationMm: 0 };
+	const stressDays = { water: 0, heat: 0, waterlogging: 0 };
+	const pestTotals = { degreeDays: 0, wetnessHours: 0, favorability: 0 };
+	const humidity = nasaInput(nasaData, "power.humidity");
+	const daily: SeasonDay[] = [];
+
+	for (let day = 1; day <= seasonDays; day++) {
+		const weatherToday = weather[day - 1];
+		const { stage, kc, canopyCover: healthyCanopy } = cropStatus(crop, day);
+		// Hail strips leaves and flattens standing crop; the canopy then grows back over the following weeks
+		canopyLoss = 1 - (1 - canopyLoss * (1 - CANOPY_REGROWTH_PER_DAY)) * (1 - weatherToday.canopyDamage);
+		biomass *= 1 - weatherToday.canopyDamage;
+		const canopyCover = healthyCanopy * (1 - canopyLoss);
+		const irrigation = irrigationForDay(choices, day);
+
+		// FAO-56 single crop coefficient water balance
+		const cropEt = kc * weatherToday.referenceEtMm;
+		const stressCoefficient = waterStressCoefficient(reservoir, crop.depletionFraction);
+		const { runoffMm: runoff, drainageMm: drainage, deepPercolationMm: deepPercolation } =
+			stepSoilWater(reservoir, weatherToday.rainfallMm + irrigation, cropEt * stressCoefficient);
+		// Drought air and cracking soil pull water beyond what the crop transpires
+		const actualEt = cropEt * stressCoefficient + drySoil(reservoir, weatherToday.soilDrying);
+
+		// Stresses: drought, heat, and saturation (slow-draining soils stay waterlogged) which hurts young crops most
+		const waterStress = 1 - stressCoefficient;
+		const heatStress = heatStressAt(crop, weatherToday.temperatureC);
+		const waterloggingStress = clamp((saturationExcess(reservoir) - 0.1) / 0.4, 0, 1) *
+			(stage === "Initial" || stage === "Development" ? 1 : 0.5);
+
+		// Draining water carries mobile nitrate below the root zone
+		nitrogenIndex *= 1 - Math.min(0.05, drainage * 0.0005);
+
+		const interceptedPar = 0.5 * weatherToday.solarMj * canopyCover;
+		const potentialGrowth = crop.radiationUseEfficiency * interceptedPar * temperatureFactor(crop, weatherToday.temperatureC);
+		// Heat past the threshold scorches leaves on top of slowing photosynthesis
+		biomass += potentialGrowth * stressCoefficient * (1 - heatStress) * (1 - waterloggingStress) * nitrogenIndex;
+		potentialBiomass += potentialGrowth;
+
+		if (day > floweringStart && day <= floweringStart + FLOWERING_WINDOW_DAYS) {
+			floweringWaterStress.push(waterStress);
+			floweringHeatStress.push(heatStress);
+		}
+
+		// Insects develop with warmth; fungi need warm, wet leaves
+		const wetnessHours = leafWetnessHours(humidity, weatherToday.rainfallMm);
+		pestTotals.degreeDays += insectDegreeDays(crop, weatherToday.temperatureC);
+		pestTotals.wetnessHours += wetnessHours;
+		pestTotals.favorability += diseaseFavorability(crop, weatherToday.temperatureC, wetnessHours);
+
+		stageStressTotals[stage] += 1 - (1 - waterStress) * (1 - heatStress) * (1 - waterloggingStress);
+		totals.rainfallMm += weatherToday.rainfallMm;
+		totals.irrigationMm += irrigation;
+		totals.actualEtMm += actualEt;
+		totals.runoffMm += runoff;
+		totals.drainageMm += drainage;
+		totals.deepPercolationMm += deepPercolation;
+		if (waterStress > 0.2) stressDays.water++;
+		if (heatStress > 0) stressDays.heat++;
+		if (waterloggingStress > 0.1) stressDays.waterlogging++;
+
+		daily.push({
+			day,
+			stage,
+			temperatureC: round2(weatherToday.temperatureC),
+			rainfallMm: round2(weatherToday.rainfallMm),
+			irrigationMm: round2(irrigation),
+			referenceEtMm: round2(weatherToday.referenceEtMm),
+			actualEtMm: round2(actualEt),
+			soilWaterMm: round2(availableWater(reservoir)),
+			runoffMm: round2(runoff),
+			drainageMm: round2(drainage),
+			deepPercolationMm: round2(deepPercolation),
+			waterStress: round2(waterStress),
+			heatStress: round2(heatStress),
+			waterloggingStress: round2(waterloggingStress),
+			nitrogenIndex: round2(nitrogenIndex),
+			canopyCover: round2(canopyCover),
+			biomassTPerHa: round2(biomass / 100)
+		});
+	}
+
+	// Stress around flowering cuts grain set far more than the same stress at other stages
+	const harvestIndex = crop.harvestIndex *
+		Math.max(0.2, 1 - 0.5 * average(floweringWaterStress) - 0.4 * average(floweringHeatStress));
+	const pests = summarizePestPressure(choices, pestTotals.degreeDays, pestTotals.wetnessHours / seasonDays, pestTotals.favorability / seasonDays);
+	const finalYield = ((biomass * harvestIndex) / 100) * (1 - pests.yieldLossPercent / 100);
+	const potentialYield = (potentialBiomass * crop.harvestIndex) / 100;
+
+	const stageStress = {} as Record<GrowthStage, number>;
+	STAGES.forEach((stage, i) => {
+		stageStress[stage] = Math.round((stageStressTotals[stage] / crop.stageDays[i]) * 100);
+	});
+
+	return {
+		cropType,
+		seasonDays,
+		finalYieldTPerHa: round2(finalYield),
+		potentialYieldTPerHa: round2(potentialYield),
+		yieldScore: potentialYield > 0 ? Math.round((finalYield / potentialYield) * 100) : 0,
+		harvestIndex: round2(harvestIndex),
+		totals: {
+			rainfallMm: Math.round(totals.rainfallMm),
+			irrigationMm: Math.round(totals.irrigationMm),
+			actualEtMm: Math.round(totals.actualEtMm),
+			runoffMm: Math.round(totals.runoffMm),
+			drainageMm: Math.round(totals.drainageMm),
+			deepPercolationMm: Math.round(totals.deepPercolationMm)
+		},
+		stressDays,
+		stageStress,
+		pests,
+		daily
+	};
+}
+
+function generateSeasonWeather(
+	crop: CropProfile,
+	seasonDays: number,
+	nasaData: NasaDataResponse,
+	random: Random,
+	events: ScenarioEvent[]
+): DailyWeather[] {
+	const meanTemperature = nasaInput(nasaData, "power.temperature2m");
+	const solarMj = nasaInput(nasaData, "power.solarRadiation") * 0.0864; // W/m2 to MJ/m2/day
+	const monthlyRainfall = nasaInput(nasaData, "gpm.precipitationAccumulation");
+	const rainProbability = 0.3;
+	const meanEventMm = monthlyRainfall / 30 / rainProbability;
+	// A historical season replays the days that were observed; days missing from the record are generated
+	const observedDays = new Map((nasaData?.seasonWeather ?? []).map((observed) => [observed.day, observed]));
+
+	const weather: DailyWeather[] = [];
+	for (let day = 1; day <= seasonDays; day++) {
+		// Cooler at sowing and harvest, peaking mid-season
+		const seasonalCurve = Math.sin((Math.PI * (day - 0.5)) / seasonDays);
+		const naturalTemperatureC = meanTemperature - 4 + 6 * seasonalCurve + (random() - 0.5) * 4;
+		const naturalRainfallMm = random() < rainProbability ? -Math.log(1 - random()) * meanEventMm : 0;
+		const observed = observedDays.get(day);
+		// Scenario events bend the natural weather without shifting the random draws
+		const adjustment = dailyWeatherAdjustment(events, crop, day);
+		const temperatureC = Math.max(adjustment.minimumTemperatureC, (observed?.temperatureC ?? naturalTemperatureC) + adjustment.temperatureDeltaC);
+		const rainfallMm = (observed?.rainfallMm ?? naturalRainfallMm) * adjustment.rainfallFactor + adjustment.extraRainfallMm;
+		const naturalSolar = observed?.solarMj ?? solarMj * (rainfallMm > 0 ? 0.7 : 1.05);
+		const dailySolar = naturalSolar * adjustment.solarFactor;
+		// Radiation-based reference ET (Hargreaves form), radiation expressed as mm of evaporation
+		const referenceEtMm = Math.max(0, 0.0135 * (temperatureC + 17.8) * (dailySolar / 2.45));
+
+		weather.push({ temperatureC, rainfallMm, solarMj: dailySolar, referenceEtMm, canopyDamage: adjustment.canopyDamage, soilDrying: adjustment.soilDrying });
+	}
+	return weather;
+}
+
+function cropStatus(crop: CropProfile, day: number): { stage: GrowthStage; kc: number; canopyCover: number } {
+	const [initial, development, mid] = crop.stageDays;
+	const { kc } = crop;
+
+	if (day <= initial) {
+		return { stage: "Initial", kc: kc.initial, canopyCover: 0.1 };
+	}
+	if (day <= initial + development) {
+		const progress = (day - initial) / development;
+		return {
+			stage: "Development",
+			kc: kc.initial + (kc.mid - kc.initial) * progress,
+			canopyCover: 0.1 + 0.85 * progress
+		};
+	}
+	if (day <= initial + development + mid) {
+		return { stage: "Mid-season", kc: kc.mid, canopyCover: 0.95 };
+	}
+	const progress = (day - initial - development - mid) / crop.stageDays[3];
+	return {
+		stage: "Late-season",
+		kc: kc.mid + (kc.end - kc.mid) * progress,
+		canopyCover: 0.95 - 0.45 * progress
+	};
+}
+
+function irrigationForDay(choices: PlayerChoices, day: number): number {
+	const window = choices.irrigationSchedule?.find((w) => day >= w.startDay && day <= w.endDay);
+	return window ? window.mmPerDay : choices.irrigationMmPerDay;
+}
+
+function average(values: number[]): number {
+	return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
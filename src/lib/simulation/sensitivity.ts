@@ -0,0 +1,175 @@
+import { CROP_LIBRARY } from "./crops";
+import { runComprehensiveSimulation } from "./engine";
+import { FARMING_METHODS } from "./farmingMethods";
+import { GRAZING_STRATEGIES, LIVESTOCK_SPECIES } from "./livestock";
+import { PEST_CONTROLS } from "./pests";
+import { SCORE_KEYS } from "./monteCarlo";
+import { DEFAULT_RANGES } from "./optimizer";
+import { SOIL_TEXTURES } from "./soils";
+import type {
+	InputRange,
+	NasaDataResponse,
+	PlayerChoices,
+	ScoreKey,
+	ScoreSwing,
+	SensitivityFactor,
+	SensitivityInputKey,
+	SensitivityResult
+} from "./types";
+
+type NasaData = NonNullable<NasaDataResponse["data"]>;
+
+type SensitivityInput = {
+	input: SensitivityInputKey;
+	label: string;
+	category: SensitivityFactor["category"];
+	values: (number | string)[];
+	apply: (choices: PlayerChoices, nasaData: NasaDataResponse, value: number | string) => [PlayerChoices, NasaDataResponse];
+};
+
+// Points sampled across each numeric range, endpoints included
+const SWEEP_POINTS = 5;
+
+// Plausible spread of each NASA driver across farmed sites and seasons
+const DRIVER_RANGES = {
+	temperature: { min: 10, max: 35 }, // °C
+	precipitation: { min: 0, max: 50 }, // mm
+	soilMoisture: { min: 0.1, max: 0.45 }, // m3/m3
+	humidity: { min: 40, max: 95 }, // %
+	ndvi: { min: 0.2, max: 0.9 }
+};
+
+const SENSITIVITY_INPUTS: SensitivityInput[] = [
+	managementInput("irrigationMmPerDay", "Irrigation", DEFAULT_RANGES.irrigationMmPerDay),
+	managementInput("fertilizerKgPerHa", "Fertilizer", DEFAULT_RANGES.fertilizerKgPerHa),
+	managementInput("livestockDensityPerHa", "Livestock Density", DEFAULT_RANGES.livestockDensityPerHa),
+	{
+		input: "cropType",
+		label: "Crop Type",
+		category: "management",
+		values: Object.keys(CROP_LIBRARY),
+		apply: (choices, nasaData, value) => [{ ...choices, cropType: String(value) }, nasaData]
+	},
+	{
+		input: "soilType",
+		label: "Soil Type",
+		category: "management",
+		values: Object.keys(SOIL_TEXTURES),
+		apply: (choices, nasaData, value) => [{ ...choices, soilType: String(value) }, nasaData]
+	},
+	{
+		input: "farmingMethod",
+		label: "Farming Method",
+		category: "management",
+		values: Object.keys(FARMING_METHODS),
+		apply: (choices, nasaData, value) => [{ ...choices, farmingMethod: String(value) }, nasaData]
+	},
+	{
+		input: "livestockSpecies",
+		label: "Livestock Species",
+		category: "management",
+		values: Object.keys(LIVESTOCK_SPECIES),
+		apply: (choices, nasaData, value) => [{ ...choices, livestockSpecies: String(value) }, nasaData]
+	},
+	{
+		input: "grazingStrategy",
+		label: "Grazing Strategy",
+		category: "management",
+		values: Object.keys(GRAZING_STRATEGIES),
+		apply: (choices, nasaData, value) => [{ ...choices, grazingStrategy: String(value) }, nasaData]
+	},
+	{
+		input: "pestControl",
+		label: "Pest Control",
+		category: "management",
+		values: Object.keys(PEST_CONTROLS),
+		apply: (choices, nasaData, value) => [{ ...choices, pestControl: String(value) }, nasaData]
+	},
+	driverInput("temperature", "Temperature", DRIVER_RANGES.temperature, (value) => ({ power: { temperature2m: value } })),
+	driverInput("precipitation", "Precipitation", DRIVER_RANGES.precipitation, (value) => ({ power: { precipitation: value } })),
+	driverInput("soilMoisture", "Soil Moisture", DRIVER_RANGES.soilMoisture, (value) => ({
+		smap: { soilMoistureSurface: value, soilMoistureRootZone: value }
+	})),
+	driverInput("humidity", "Humidity", DRIVER_RANGES.humidity, (value) => ({ power: { humidity: value } })),
+	driverInput("ndvi", "NDVI", DRIVER_RANGES.ndvi, (value) => ({ modis: { ndvi: value } }))
+];
+
+// One-at-a-time sweep: every other input stays at its current value while one moves across its range
+export async function runSensitivityAnalysis(
+	choices: PlayerChoices,
+	nasaData: NasaDataResponse
+): Promise<SensitivityResult> {
+	const baselineResult = await runComprehensiveSimulation(choices, nasaData);
+	const baseline = {} as Record<ScoreKey, number>;
+	SCORE_KEYS.forEach((key) => {
+		baseline[key] = baselineResult[key];
+	});
+
+	const factors: SensitivityFactor[] = [];
+	for (const { input, label, category, values, apply } of SENSITIVITY_INPUTS) {
+		const samples = {} as Record<ScoreKey, number[]>;
+		SCORE_KEYS.forEach((key) => {
+			samples[key] = [];
+		});
+
+		for (const value of values) {
+			const [perturbedChoices, perturbedNasaData] = apply(choices, nasaData, value);
+			const result = await runComprehensiveSimulation(perturbedChoices, perturbedNasaData);
+			SCORE_KEYS.forEach((key) => samples[key].push(result[key]));
+		}
+
+		const scores = {} as Record<ScoreKey, ScoreSwing>;
+		SCORE_KEYS.forEach((key) => {
+			const low = Math.min(...samples[key]);
+			const high = Math.max(...samples[key]);
+			scores[key] = { low, high, swing: high - low };
+		});
+
+		factors.push({ input, label, category, values, scores });
+	}
+
+	return { baseline, factors };
+}
+
+function managementInput(
+	input: "irrigationMmPerDay" | "fertilizerKgPerHa" | "livestockDensityPerHa",
+	label: string,
+	range: InputRange
+): SensitivityInput {
+	return {
+		input,
+		label,
+		category: "management",
+		values: sweep(range.min, range.max),
+		apply: (choices, nasaData, value) => [{ ...choices, [input]: Number(value) }, nasaData]
+	};
+}
+
+function driverInput(
+	input: SensitivityInputKey,
+	label: string,
+	range: { min: number; max: number },
+	patch: (value: number) => { [K in keyof NasaData]?: Partial<NasaData[K]> }
+): SensitivityInput {
+	return {
+		input,
+		label,
+		category: "environment",
+		values: sweep(range.min, range.max),
+		apply: (choices, nasaData, value) => [choices, withDrivers(nasaData, patch(Number(value)))]
+	};
+}
+
+function withDrivers(nasaData: NasaDataResponse, patch: { [K in keyof NasaData]?: Partial<NasaData[K]> }): NasaDataResponse {
+	const data = { ...nasaData?.data } as Record<string, object | undefined>;
+	Object.entries(patch).forEach(([section, values]) => {
+		data[section] = { ...data[section], ...values };
+	});
+	return { ...nasaData, data };
+}
+
+function sweep(min: number, max: number): number[] {
+	return Array.from({ length: SWEEP_POINTS }, (_, i) =>
+		Math.round((min + ((max - min) * i) / (SWEEP_POINTS - 1)) * 1000) / 1000
+	);
+}
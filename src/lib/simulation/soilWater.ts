@@ -0,0 +1,169 @@
+import { getCrop } from "./crops";
+import { nasaInput } from "./nasaInputs";
+import { drainageCoefficient, getSoil, type SoilProfile } from "./soils";
+import type { NasaDataResponse, PlayerChoices, WaterBalanceSummary } from "./types";
+
+// Layer below the roots that drained water crosses before it is lost to groundwater
+const SUBSOIL_DEPTH_M = 0.5;
+// Representative month used by the snapshot score, with rain arriving as discrete events
+const BALANCE_DAYS = 30;
+const RAIN_EVENT_INTERVAL_DAYS = 6;
+
+export type SoilWaterReservoir = {
+	soil: SoilProfile;
+	rootDepthM: number;
+	rootZoneMm: number; // water held in the root zone
+	subsoilMm: number; // water held in the layer below the roots
+};
+
+export type SoilWaterFluxes = {
+	infiltrationMm: number;
+	runoffMm: number;
+	drainageMm: number; // left the root zone, out of reach of the crop
+	deepPercolationMm: number; // left the subsoil towards groundwater
+};
+
+type LayerStorage = { wiltingPointMm: number; fieldCapacityMm: number; saturationMm: number };
+
+export function createReservoir(soil: SoilProfile, rootDepthM: number, initialMoisture: number): SoilWaterReservoir {
+	const moisture = clamp(initialMoisture, soil.wiltingPoint, soil.fieldCapacity);
+	return {
+		soil,
+		rootDepthM,
+		rootZoneMm: moisture * rootDepthM * 1000,
+		subsoilMm: soil.fieldCapacity * SUBSOIL_DEPTH_M * 1000
+	};
+}
+
+export function totalAvailableWater(reservoir: SoilWaterReservoir): number {
+	const { wiltingPointMm, fieldCapacityMm } = layerStorage(reservoir.soil, reservoir.rootDepthM);
+	return fieldCapacityMm - wiltingPointMm;
+}
+
+// Plant-available water currently held, capped at field capacity
+export function availableWater(reservoir: SoilWaterReservoir): number {
+	const { wiltingPointMm } = layerStorage(reservoir.soil, reservoir.rootDepthM);
+	return clamp(reservoir.rootZoneMm - wiltingPointMm, 0, totalAvailableWater(reservoir));
+}
+
+// FAO-56 Ks: no stress until the readily available share of water is used up
+export function waterStressCoefficient(reservoir: SoilWaterReservoir, depletionFraction: number): number {
+	const totalWater = totalAvailableWater(reservoir);
+	const depletion = totalWater - availableWater(reservoir);
+	const readilyAvailableWater = depletionFraction * totalWater;
+	if (depletion <= readilyAvailableWater) return 1;
+	return Math.max(0, (totalWater - depletion) / (totalWater - readilyAvailableWater));
+}
+
+// Evaporates a share of the plant-available water; returns the mm lost
+export function drySoil(reservoir: SoilWaterReservoir, share: number): number {
+	const lostMm = availableWater(reservoir) * share;
+	reservoir.rootZoneMm -= lostMm;
+	return lostMm;
+}
+
+// Share of the air-filled pore space above field capacity that is currently water-filled
+export function saturationExcess(reservoir: SoilWaterReservoir): number {
+	const { fieldCapacityMm, saturationMm } = layerStorage(reservoir.soil, reservoir.rootDepthM);
+	return clamp((reservoir.rootZoneMm - fieldCapacityMm) / (saturationMm - fieldCapacityMm), 0, 1);
+}
+
+// One day of the two-layer bucket: infiltrate, transpire, then drain what field capacity cannot hold
+export function stepSoilWater(reservoir: SoilWaterReservoir, waterInputMm: number, actualEtMm: number): SoilWaterFluxes {
+	const { soil } = reservoir;
+	const rootZone = layerStorage(soil, reservoir.rootDepthM);
+	const subsoil = layerStorage(soil, SUBSOIL_DEPTH_M);
+	const tau = drainageCoefficient(soil);
+
+	// Water arriving faster than the surface can take it in runs off
+	const infiltration = Math.min(waterInputMm, soil.saturatedConductivityMmPerDay);
+	let runoff = waterInputMm - infiltration;
+
+	reservoir.rootZoneMm = Math.max(rootZone.wiltingPointMm, reservoir.rootZoneMm + infiltration - actualEtMm);
+	if (reservoir.rootZoneMm > rootZone.saturationMm) {
+		runoff += reservoir.rootZoneMm - rootZone.saturationMm;
+		reservoir.rootZoneMm = rootZone.saturationMm;
+	}
+
+	const drainage = Math.max(0, reservoir.rootZoneMm - rootZone.fieldCapacityMm) * tau;
+	reservoir.rootZoneMm -= drainage;
+	reservoir.subsoilMm += drainage;
+
+	let deepPercolation = Math.max(0, reservoir.subsoilMm - subsoil.fieldCapacityMm) * tau;
+	reservoir.subsoilMm -= deepPercolation;
+	if (reservoir.subsoilMm > subsoil.saturationMm) {
+		deepPercolation += reservoir.subsoilMm - subsoil.saturationMm;
+		reservoir.subsoilMm = subsoil.saturationMm;
+	}
+
+	return { infiltrationMm: infiltration, runoffMm: runoff, drainageMm: drainage, deepPercolationMm: deepPercolation };
+}
+
+// Month-long water balance behind the snapshot irrigation scores
+export function runMonthlyWaterBalance(choices: PlayerChoices, nasaData: NasaDataResponse): WaterBalanceSummary {
+	const soil = getSoil(choices.soilType);
+	const crop = getCrop(choices.cropType);
+	const reservoir = createReservoir(soil, crop.rootDepthM, nasaInput(nasaData, "smap.soilMoistureRootZone"));
+
+	const monthlyRainfall = nasaInput(nasaData, "power.precipitation");
+	const rainEventMm = (monthlyRainfall * RAIN_EVENT_INTERVAL_DAYS) / BALANCE_DAYS;
+	// Frozen months draw nothing from the soil rather than adding water to it
+	const referenceEtMm = Math.max(0, nasaInput(nasaData, "power.temperature2m") * 0.1 + 2);
+	const cropEtMm = crop.kc.mid * referenceEtMm;
+
+	const totals = { rainfallMm: 0, irrigationMm: 0, potentialEtMm: 0, actualEtMm: 0, runoffMm: 0, drainageMm: 0, deepPercolationMm: 0 };
+	for (let day = 1; day <= BALANCE_DAYS; day++) {
+		const rainfall = day % RAIN_EVENT_INTERVAL_DAYS === 0 ? rainEventMm : 0;
+		const actualEt = cropEtMm * waterStressCoefficient(reservoir, crop.depletionFraction);
+		const fluxes = stepSoilWater(reservoir, rainfall + choices.irrigationMmPerDay, actualEt);
+
+		totals.rainfallMm += rainfall;
+		totals.irrigationMm += choices.irrigationMmPerDay;
+		totals.potentialEtMm += cropEtMm;
+		totals.actualEtMm += actualEt;
+		totals.runoffMm += fluxes.runoffMm;
+		totals.drainageMm += fluxes.drainageMm;
+		totals.deepPercolationMm += fluxes.deepPercolationMm;
+	}
+
+	// Losses are shared between rain and irrigation in proportion to what each supplied
+	const waterInput = totals.rainfallMm + totals.irrigationMm;
+	const irrigationShare = waterInput > 0 ? totals.irrigationMm / waterInput : 0;
+	const irrigationRunoffMm = totals.runoffMm * irrigationShare;
+	const irrigationDrainageMm = totals.drainageMm * irrigationShare;
+
+	return {
+		days: BALANCE_DAYS,
+		soilType: soil.name,
+		rainfallMm: round1(totals.rainfallMm),
+		irrigationMm: round1(totals.irrigationMm),
+		potentialEtMm: round1(totals.potentialEtMm),
+		actualEtMm: round1(totals.actualEtMm),
+		runoffMm: round1(totals.runoffMm),
+		drainageMm: round1(totals.drainageMm),
+		deepPercolationMm: round1(totals.deepPercolationMm),
+		irrigationRunoffMm: round1(irrigationRunoffMm),
+		irrigationDrainageMm: round1(irrigationDrainageMm),
+		applicationEfficiency: totals.irrigationMm > 0
+			? round1((1 - (irrigationRunoffMm + irrigationDrainageMm) / totals.irrigationMm) * 100)
+			: 100,
+		// With no demand at all the crop wants for nothing
+		cropWaterSupply: totals.potentialEtMm > 0 ? round1((totals.actualEtMm / totals.potentialEtMm) * 100) : 100
+	};
+}
+
+function layerStorage(soil: SoilProfile, depthM: number): LayerStorage {
+	return {
+		wiltingPointMm: soil.wiltingPoint * depthM * 1000,
+		fieldCapacityMm: soil.fieldCapacity * depthM * 1000,
+		saturationMm: soil.saturation * depthM * 1000
+	};
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,58 @@
+export type SoilProfile = {
+	name: string;
+	description: string;
+	fieldCapacity: number; // volumetric water content (m3/m3) after free drainage
+	wiltingPoint: number; // m3/m3 below which roots can extract no water
+	saturation: number; // m3/m3 with every pore filled
+	saturatedConductivityMmPerDay: number; // Ksat, caps daily infiltration and sets drainage speed
+	yieldFactor: number; // yield relative to loam under the same weather and management
+};
+
+// Typical values per texture class (Saxton & Rawls 2006)
+export const SOIL_TEXTURES: Record<string, SoilProfile> = {
+	Loam: {
+		name: "Loam",
+		description: "Balanced texture that holds water well and still drains",
+		fieldCapacity: 0.28,
+		wiltingPoint: 0.12,
+		saturation: 0.46,
+		saturatedConductivityMmPerDay: 300,
+		yieldFactor: 1
+	},
+	Clay: {
+		name: "Clay",
+		description: "Fine texture that stores water but drains slowly and sheds heavy rain",
+		fieldCapacity: 0.4,
+		wiltingPoint: 0.25,
+		saturation: 0.5,
+		saturatedConductivityMmPerDay: 25,
+		yieldFactor: 0.8
+	},
+	Sand: {
+		name: "Sand",
+		description: "Coarse texture that drains fast and holds little water",
+		fieldCapacity: 0.12,
+		wiltingPoint: 0.05,
+		saturation: 0.43,
+		saturatedConductivityMmPerDay: 1200,
+		yieldFactor: 0.7
+	},
+	Silt: {
+		name: "Silt",
+		description: "Silt loam with the largest plant-available water store",
+		fieldCapacity: 0.33,
+		wiltingPoint: 0.13,
+		saturation: 0.48,
+		saturatedConductivityMmPerDay: 170,
+		yieldFactor: 0.9
+	}
+};
+
+export function getSoil(name?: string): SoilProfile {
+	return SOIL_TEXTURES[name ?? ""] ?? SOIL_TEXTURES.Loam;
+}
+
+// Share of water above field capacity that drains away in a day (AquaCrop's tau)
+export function drainageCoefficient(soil: SoilProfile): number {
+	return Math.min(1, 0.0866 * soil.saturatedConductivityMmPerDay ** 0.35);
+}
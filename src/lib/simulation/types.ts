@@ -0,0 +1,558 @@
+import type { SiteClimate } from "@/lib/nasa/syntheticClimate";
+import type { DataProvenance, EnvironmentalHistory, ProviderFallback, ProviderReport } from "@/lib/nasa/types";
+import type { FarmingMethodProfile } from "./farmingMethods";
+
+export type SimulationMode = "snapshot" | "season" | "rotation" | "monteCarlo" | "sensitivity";
+
+export type IrrigationWindow = {
+	startDay: number;
+	endDay: number;
+	mmPerDay: number;
+};
+
+export type PlayerChoices = {
+	irrigationMmPerDay: number;
+	fertilizerKgPerHa: number;
+	livestockDensityPerHa: number;
+	cropType?: string;
+	soilType?: string;
+	farmingMethod?: string;
+	livestockSpecies?: string;
+	grazingStrategy?: string;
+	irrigationSchedule?: IrrigationWindow[];
+	economics?: EconomicsInput;
+	pestControl?: string;
+};
+
+// Unit prices, all in the selected currency
+export type InputCosts = {
+	fertilizerPerKg: number;
+	waterPerM3: number;
+	energyPerKWh: number;
+	feedPerTonneDm: number;
+	laborPerHour: number;
+	machineryPerHa: number;
+};
+
+export type FarmEconomics = {
+	region: string;
+	currency: string;
+	cropPrices: Record<string, number>; // per tonne
+	livestockRevenuePerLu: number; // milk, meat, eggs and wool sold per livestock unit per year
+	costs: InputCosts;
+};
+
+// Anything left out falls back to the regional preset
+export type EconomicsInput = {
+	region?: string;
+	currency?: string;
+	cropPrices?: Record<string, number>;
+	livestockRevenuePerLu?: number;
+	costs?: Partial<InputCosts>;
+};
+
+export type SimulationResult = {
+	yieldScore: number;
+	sustainabilityScore: number;
+	soilHealthScore: number;
+	waterEfficiencyScore: number;
+	carbonFootprint: number;
+	economicViability: number;
+	waterQualityScore: number;
+	contributions: Record<ScoreKey, ScoreContribution[]>;
+	insights: string[];
+	recommendations: Recommendation[];
+	comparison: ComparisonData;
+	livestockImpact: LivestockAnalysis;
+	irrigationAnalysis: IrrigationAnalysis;
+	soilHealthMetrics: SoilHealthMetrics;
+	nitrogenBalance: NitrogenBalance;
+	budget: FarmBudget;
+	emissions: EmissionsInventory;
+	pests: PestAssessment;
+	farmingMethod: FarmingMethodProfile;
+	season?: SeasonResult;
+	rotation?: RotationResult;
+	uncertainty?: MonteCarloResult;
+	sensitivity?: SensitivityResult;
+	scenario?: ScenarioReport;
+	climate?: ClimateComparison;
+	environment?: SimulationEnvironment;
+};
+
+// Exactly what the scores were computed from, so the page shows the weather behind them
+export type SimulationEnvironment = {
+	location: { lat: number; lon: number };
+	seed: number;
+	date: string;
+	datasets: string[];
+	site: SiteClimate; // climate zone and long-term normals behind the synthetic observations
+	provider: ProviderReport; // where each dataset came from, including any fallback to synthetic data
+	data: NonNullable<NasaDataResponse["data"]>; // after any scenario events were applied
+	provenance: DataProvenance; // for each value in data, plus any model defaults used in its place
+	observedData?: NonNullable<NasaDataResponse["data"]>; // before scenario events, when any were injected
+	historicalSeason?: HistoricalSeason; // when the season replayed a past year
+};
+
+export type HistoricalSeason = {
+	year: number;
+	start: string;
+	end: string;
+	sources: EnvironmentalHistory["sources"];
+	fallbacks: ProviderFallback[];
+};
+
+export type BudgetLine = {
+	item: string;
+	quantity: number;
+	unit: string;
+	unitPrice: number;
+	amount: number;
+};
+
+// Annual per-hectare profit and loss statement
+export type FarmBudget = {
+	region: string;
+	currency: string;
+	currencySymbol: string;
+	yieldTPerHa: number;
+	revenue: BudgetLine[];
+	costs: BudgetLine[];
+	totalRevenue: number;
+	totalCosts: number;
+	profit: number;
+	breakEvenYieldTPerHa: number;
+	returnOnInputs: number; // profit per unit spent, %
+};
+
+export type PestRiskLevel = "Low" | "Moderate" | "High";
+
+export type PestAssessment = {
+	control: string;
+	insect: {
+		name: string;
+		degreeDays: number;
+		generations: number;
+		risk: number; // %
+		riskLevel: PestRiskLevel;
+	};
+	disease: {
+		name: string;
+		leafWetnessHours: number; // average per day
+		risk: number; // %
+		riskLevel: PestRiskLevel;
+	};
+	unprotectedLossPercent: number;
+	yieldLossPercent: number; // after control, including any yield drag of the control itself
+};
+
+export type GreenhouseGas = "CO2" | "CH4" | "N2O";
+
+export type EmissionSource = {
+	source: string;
+	gas: GreenhouseGas;
+	category: "crop" | "livestock";
+	kgGasPerHa: number; // mass of the gas itself; negative when the soil stores carbon
+	kgCo2ePerHa: number;
+};
+
+// Annual greenhouse gas inventory for one hectare, IPCC Tier 1 style
+export type EmissionsInventory = {
+	sources: EmissionSource[];
+	gases: Record<GreenhouseGas, number>; // kg of each gas per ha
+	totalKgCo2ePerHa: number;
+	cropKgCo2ePerHa: number;
+	livestockKgCo2ePerHa: number;
+	cropYieldTPerHa: number;
+	kgCo2ePerTonneCrop: number;
+	kgCo2ePerLivestockUnit: number;
+};
+
+export type ScoreContribution = {
+	factor: string;
+	input: number | string;
+	points: number;
+	reason: string;
+};
+
+export type Recommendation = {
+	category: string;
+	priority: "High" | "Medium" | "Low";
+	action: string;
+	impact: string;
+	implementation: string;
+};
+
+export type ComparisonData = {
+	baseline: number;
+	current: number;
+	improvement: number;
+	benchmark: string;
+};
+
+export type LivestockAnalysis = {
+	soilCompaction: number;
+	nutrientCycling: number;
+	waterConsumption: number;
+	greenhouseGasEmissions: number;
+	benefits: string[];
+	concerns: string[];
+	herd: HerdAssessment;
+};
+
+export type HerdAssessment = {
+	species: string;
+	grazingStrategy: string;
+	head: number; // animals per hectare
+	livestockUnitsPerHa: number;
+	forageDemandKgDmPerHaPerDay: number;
+	pastureGrowthKgDmPerHaPerDay: number;
+	grazingPressure: number; // forage demand over pasture regrowth; above 1 is overgrazing
+	waterUseLitresPerHaPerDay: number;
+	entericMethaneKgPerHaPerYear: number;
+	manureNitrogenKgPerHaPerYear: number;
+	manurePhosphorusKgPerHaPerYear: number;
+	compactionIndex: number; // hoof damage in cattle-LU equivalents
+	organicMatterBonus: number;
+};
+
+export type IrrigationAnalysis = {
+	efficiency: number;
+	waterStress: string;
+	optimalTiming: string;
+	recommendedMethod: string;
+	waterSavings: number;
+	waterBalance: WaterBalanceSummary;
+};
+
+export type WaterBalanceSummary = {
+	days: number;
+	soilType: string;
+	rainfallMm: number;
+	irrigationMm: number;
+	potentialEtMm: number;
+	actualEtMm: number;
+	runoffMm: number;
+	drainageMm: number;
+	deepPercolationMm: number;
+	irrigationRunoffMm: number;
+	irrigationDrainageMm: number;
+	applicationEfficiency: number; // % of irrigation kept in the root zone
+	cropWaterSupply: number; // % of crop water demand met
+};
+
+export type NitrogenBalance = {
+	seasonDays: number;
+	inputs: {
+		fertilizerKgPerHa: number;
+		manureKgPerHa: number;
+		mineralizationKgPerHa: number;
+	};
+	cropDemandKgPerHa: number;
+	uptakeKgPerHa: number;
+	losses: {
+		leachingKgPerHa: number;
+		runoffKgPerHa: number;
+		volatilizationKgPerHa: number;
+		denitrificationKgPerHa: number;
+	};
+	lostToWaterKgPerHa: number;
+	lostToAirKgPerHa: number;
+	residualKgPerHa: number;
+	nitrateInDrainageMgPerL: number; // nitrate-N; 11.3 mg/L is the drinking water limit
+	nitrogenUseEfficiency: number; // % of all N inputs taken up by the crop
+	demandMet: number; // % of crop N demand taken up
+};
+
+export type SoilHealthMetrics = {
+	organicMatter: number;
+	organicMatterTrend: number;
+	pH: number;
+	nutrientLevel: string;
+	moistureRetention: number;
+	compactionRisk: string;
+};
+
+export type GrowthStage = "Initial" | "Development" | "Mid-season" | "Late-season";
+
+export type SeasonDay = {
+	day: number;
+	stage: GrowthStage;
+	temperatureC: number;
+	rainfallMm: number;
+	irrigationMm: number;
+	referenceEtMm: number;
+	actualEtMm: number;
+	soilWaterMm: number;
+	runoffMm: number;
+	drainageMm: number;
+	deepPercolationMm: number;
+	waterStress: number;
+	heatStress: number;
+	waterloggingStress: number;
+	nitrogenIndex: number;
+	canopyCover: number;
+	biomassTPerHa: number;
+};
+
+export type SeasonResult = {
+	cropType: string;
+	seasonDays: number;
+	finalYieldTPerHa: number;
+	potentialYieldTPerHa: number;
+	yieldScore: number;
+	harvestIndex: number;
+	totals: {
+		rainfallMm: number;
+		irrigationMm: number;
+		actualEtMm: number;
+		runoffMm: number;
+		drainageMm: number;
+		deepPercolationMm: number;
+	};
+	stressDays: {
+		water: number;
+		heat: number;
+		waterlogging: number;
+	};
+	stageStress: Record<GrowthStage, number>;
+	pests: PestAssessment;
+	daily: SeasonDay[];
+};
+
+export type ScenarioEventType = "drought" | "heatwave" | "flood" | "hail";
+export type ScenarioSeverity = "mild" | "moderate" | "severe";
+
+// A deliberate weather shock; timing is a season day or the start of a growth stage
+export type ScenarioEvent = {
+	name?: string;
+	type: ScenarioEventType;
+	severity: ScenarioSeverity;
+	startDay?: number;
+	stage?: GrowthStage | "Flowering";
+	durationDays: number;
+};
+
+export type ScenarioEventReport = {
+	name: string;
+	type: ScenarioEventType;
+	severity: ScenarioSeverity;
+	startDay: number;
+	endDay: number;
+	yieldLossTPerHa: number; // this event alone, against the undisturbed season
+	yieldLossPercent: number;
+	peakStress: number; // %
+	recoveryDays: number | null; // days after the event until the crop tracks the undisturbed season again; null if it never does
+};
+
+export type ScenarioReport = {
+	events: ScenarioEventReport[];
+	baselineScores: Record<ScoreKey, number>;
+	scoreChange: Record<ScoreKey, number>; // stressed minus undisturbed snapshot scores
+	baselineYieldTPerHa: number;
+	stressedYieldTPerHa: number;
+	yieldLossPercent: number;
+};
+
+// A warming pathway reached by a target decade (e.g. 2050 for the 2050s)
+export type ClimateProjectionInput = {
+	pathway: string;
+	decade: number;
+	precipitationShift?: string;
+};
+
+// Local change against present-day weather
+export type ClimateProjection = {
+	pathway: string;
+	decade: number;
+	precipitationShift: string;
+	globalWarmingC: number; // above pre-industrial
+	localWarmingC: number; // above the present day
+	precipitationChangePercent: number;
+};
+
+export type ClimateAdaptation = {
+	action: string;
+	description: string;
+	projectedScores: Record<ScoreKey, number>;
+	scoreChange: Record<ScoreKey, number>; // against the projected run without the adaptation
+};
+
+export type ClimateComparison = {
+	projection: ClimateProjection;
+	presentScores: Record<ScoreKey, number>;
+	projectedScores: Record<ScoreKey, number>;
+	scoreChange: Record<ScoreKey, number>; // projected minus present day
+	adaptations: ClimateAdaptation[];
+};
+
+export type RotationPlanYear = {
+	cropType: string;
+	coverCrop?: string;
+};
+
+export type SoilCarryOver = {
+	residualNitrogenKgPerHa: number;
+	pestPressure: number;
+	organicMatter: number;
+	compaction: number;
+};
+
+export type RotationYearResult = {
+	year: number;
+	cropType: string;
+	coverCrop: string;
+	yieldScore: number;
+	sustainabilityScore: number;
+	soilHealthScore: number;
+	economicViability: number;
+	carbonFootprint: number;
+	rotationEffects: string[];
+	soilAtPlanting: SoilCarryOver;
+	soilHealthMetrics: SoilHealthMetrics;
+};
+
+export type RotationResult = {
+	years: RotationYearResult[];
+	soilHealthTrend: (SoilCarryOver & { year: number; soilHealthScore: number })[];
+	averageYieldScore: number;
+	totalEconomicViability: number;
+	monoculture: {
+		cropType: string;
+		averageYieldScore: number;
+		totalEconomicViability: number;
+		finalOrganicMatter: number;
+	};
+};
+
+export type ScoreKey =
+	| "yieldScore"
+	| "sustainabilityScore"
+	| "soilHealthScore"
+	| "waterEfficiencyScore"
+	| "carbonFootprint"
+	| "economicViability"
+	| "waterQualityScore";
+
+export type ScoreDistribution = {
+	mean: number;
+	stdDev: number;
+	p10: number;
+	p50: number;
+	p90: number;
+	min: number;
+	max: number;
+};
+
+export type MonteCarloResult = {
+	realizations: number;
+	scores: Record<ScoreKey, ScoreDistribution>;
+};
+
+// Shape of the /api/nasaData payload as consumed by the simulation
+export type NasaDataResponse = {
+	data?: {
+		power?: {
+			temperature2m?: number;
+			precipitation?: number;
+			solarRadiation?: number;
+			humidity?: number;
+			windSpeed?: number;
+		};
+		smap?: {
+			soilMoistureSurface?: number;
+			soilMoistureRootZone?: number;
+			soilTemperature?: number;
+		};
+		modis?: {
+			ndvi?: number;
+			evi?: number;
+			lai?: number;
+			fpar?: number;
+		};
+		gpm?: {
+			precipitationRate?: number;
+			precipitationAccumulation?: number;
+		};
+		drought?: {
+			droughtIndex?: number;
+			droughtCategory?: string;
+			soilMoisturePercentile?: number;
+		};
+	};
+	seasonWeather?: SeasonWeatherDay[]; // observed days from planting on, when simulating a historical season
+	heatSpell?: HeatSpell; // hot days injected by a scenario, which the monthly mean would hide
+	provenance?: DataProvenance; // where each value in data came from
+};
+
+export type HeatSpell = {
+	days: number;
+	temperatureC: number;
+};
+
+export type SeasonWeatherDay = {
+	day: number; // season day, 1 at planting
+	date: string;
+	temperatureC: number;
+	rainfallMm: number;
+	solarMj: number;
+};
+
+export type InputRange = {
+	min: number;
+	max: number;
+	step: number;
+};
+
+export type ManagementInputs = Pick<PlayerChoices, "irrigationMmPerDay" | "fertilizerKgPerHa" | "livestockDensityPerHa">;
+
+export type OptimizationRanges = Record<keyof ManagementInputs, InputRange>;
+
+export type ObjectiveKey = "yield" | "sustainability" | "waterEfficiency" | "economicViability" | "carbon";
+
+export type ObjectiveWeights = Record<ObjectiveKey, number>;
+
+export type OptimizationCandidate = {
+	choices: ManagementInputs;
+	objectives: Record<ObjectiveKey, number>;
+	weightedScore: number;
+};
+
+export type OptimizationResult = {
+	evaluated: number;
+	best: OptimizationCandidate;
+	paretoFront: OptimizationCandidate[];
+};
+
+export type SensitivityInputKey =
+	| keyof ManagementInputs
+	| "cropType"
+	| "soilType"
+	| "farmingMethod"
+	| "livestockSpecies"
+	| "grazingStrategy"
+	| "pestControl"
+	| "temperature"
+	| "precipitation"
+	| "soilMoisture"
+	| "humidity"
+	| "ndvi";
+
+export type ScoreSwing = {
+	low: number;
+	high: number;
+	swing: number;
+};
+
+export type SensitivityFactor = {
+	input: SensitivityInputKey;
+	label: string;
+	category: "management" | "environment";
+	values: (number | string)[];
+	scores: Record<ScoreKey, ScoreSwing>;
+};
+
+export type SensitivityResult = {
+	baseline: Record<ScoreKey, number>;
+	factors: SensitivityFactor[];
+};
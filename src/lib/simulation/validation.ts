@@ -0,0 +1,149 @@
+import {
+	checkArray,
+	checkNumber,
+	checkObject,
+	checkOption,
+	type FieldError
+} from "@/lib/validation";
+import { CROP_LIBRARY } from "./crops";
+import { CURRENCIES, REGIONAL_PRESETS } from "./economics";
+import { FARMING_METHODS } from "./farmingMethods";
+import { GRAZING_STRATEGIES, LIVESTOCK_SPECIES } from "./livestock";
+import { MAX_REALIZATIONS } from "./monteCarlo";
+import { countRangeValues, MAX_EVALUATIONS } from "./optimizer";
+import { PEST_CONTROLS } from "./pests";
+import { COVER_CROPS } from "./rotation";
+import { SOIL_TEXTURES } from "./soils";
+import type { InputCosts, InputRange, ManagementInputs, ObjectiveKey, SimulationMode } from "./types";
+
+// Physical bounds on the management inputs; anything outside is a typo or a unit mix-up
+export const INPUT_LIMITS: Record<keyof ManagementInputs, { max: number; unit: string }> = {
+	irrigationMmPerDay: { max: 50, unit: "mm/day" },
+	fertilizerKgPerHa: { max: 500, unit: "kg/ha" },
+	livestockDensityPerHa: { max: 50, unit: "head/ha" }
+};
+
+export const SIMULATION_MODES: SimulationMode[] = ["snapshot", "season", "rotation", "monteCarlo", "sensitivity"];
+export const MAX_ROTATION_YEARS = 30;
+
+const COST_ITEMS: (keyof InputCosts)[] = ["fertilizerPerKg", "waterPerM3", "energyPerKWh", "feedPerTonneDm", "laborPerHour", "machineryPerHa"];
+const OBJECTIVE_KEYS: ObjectiveKey[] = ["yield", "sustainability", "waterEfficiency", "economicViability", "carbon"];
+const MAX_SCHEDULE_DAY = 366;
+
+// Crop, soil, method, livestock and pest choices shared by the simulate and optimize requests
+export function validateFarmSetup(errors: FieldError[], body: Record<string, unknown>): void {
+	checkOption(errors, "cropType", body.cropType, Object.keys(CROP_LIBRARY));
+	checkOption(errors, "soilType", body.soilType, Object.keys(SOIL_TEXTURES));
+	checkOption(errors, "farmingMethod", body.farmingMethod, Object.keys(FARMING_METHODS));
+	checkOption(errors, "livestockSpecies", body.livestockSpecies, Object.keys(LIVESTOCK_SPECIES));
+	checkOption(errors, "grazingStrategy", body.grazingStrategy, Object.keys(GRAZING_STRATEGIES));
+	checkOption(errors, "pestControl", body.pestControl, Object.keys(PEST_CONTROLS));
+	validateEconomics(errors, body.economics);
+}
+
+// Everything the simulate request needs to describe one farm
+export function validatePlayerChoices(errors: FieldError[], body: Record<string, unknown>): void {
+	(Object.keys(INPUT_LIMITS) as (keyof ManagementInputs)[]).forEach((field) => {
+		checkNumber(errors, field, body[field], { min: 0, ...INPUT_LIMITS[field], required: true });
+	});
+	validateFarmSetup(errors, body);
+
+	if (checkArray(errors, "irrigationSchedule", body.irrigationSchedule)) {
+		body.irrigationSchedule.forEach((window, i) => {
+			const field = `irrigationSchedule[${i}]`;
+			if (!checkObject(errors, field, window, true)) return;
+			checkNumber(errors, `${field}.startDay`, window.startDay, { min: 1, max: MAX_SCHEDULE_DAY, integer: true, required: true });
+			checkNumber(errors, `${field}.endDay`, window.endDay, { min: 1, max: MAX_SCHEDULE_DAY, integer: true, required: true });
+			checkNumber(errors, `${field}.mmPerDay`, window.mmPerDay, { min: 0, ...INPUT_LIMITS.irrigationMmPerDay, required: true });
+			if (typeof window.startDay === "number" && typeof window.endDay === "number" && window.endDay < window.startDay) {
+				errors.push({ field: `${field}.endDay`, message: "must not be before startDay" });
+			}
+		});
+	}
+}
+
+export function validateEconomics(errors: FieldError[], economics: unknown): void {
+	if (!checkObject(errors, "economics", economics)) return;
+	checkOption(errors, "economics.region", economics.region, Object.keys(REGIONAL_PRESETS));
+	checkOption(errors, "economics.currency", economics.currency, Object.keys(CURRENCIES));
+	checkNumber(errors, "economics.livestockRevenuePerLu", economics.livestockRevenuePerLu, { min: 0 });
+
+	if (checkObject(errors, "economics.costs", economics.costs)) {
+		const costs = economics.costs;
+		Object.keys(costs).forEach((item) => {
+			if (!COST_ITEMS.includes(item as keyof InputCosts)) {
+				errors.push({ field: `economics.costs.${item}`, message: `is not a cost item; use ${COST_ITEMS.join(", ")}` });
+			} else {
+				checkNumber(errors, `economics.costs.${item}`, costs[item], { min: 0 });
+			}
+		});
+	}
+	if (checkObject(errors, "economics.cropPrices", economics.cropPrices)) {
+		const prices = economics.cropPrices;
+		Object.keys(prices).forEach((crop) => {
+			if (!CROP_LIBRARY[crop]) {
+				errors.push({ field: `economics.cropPrices.${crop}`, message: "is not a crop in the library" });
+			} else {
+				checkNumber(errors, `economics.cropPrices.${crop}`, prices[crop], { min: 0 });
+			}
+		});
+	}
+}
+
+// Simulation mode and the options each mode reads
+export function validateSimulationOptions(errors: FieldError[], body: Record<string, unknown>): void {
+	checkOption(errors, "mode", body.mode, SIMULATION_MODES);
+	checkNumber(errors, "realizations", body.realizations, { min: 1, max: MAX_REALIZATIONS, integer: true });
+	checkNumber(errors, "rotationYears", body.rotationYears, { min: 1, max: MAX_ROTATION_YEARS, integer: true });
+
+	if (checkArray(errors, "rotation", body.rotation, MAX_ROTATION_YEARS)) {
+		body.rotation.forEach((year, i) => {
+			const field = `rotation[${i}]`;
+			if (!checkObject(errors, field, year, true)) return;
+			checkOption(errors, `${field}.cropType`, year.cropType, Object.keys(CROP_LIBRARY), true);
+			checkOption(errors, `${field}.coverCrop`, year.coverCrop, Object.keys(COVER_CROPS));
+		});
+	}
+	if (body.mode === "rotation" && !(Array.isArray(body.rotation) && body.rotation.length > 0)) {
+		errors.push({ field: "rotation", message: "must list at least one year in rotation mode" });
+	}
+}
+
+export function validateOptimizationRanges(errors: FieldError[], ranges: unknown): void {
+	if (!checkObject(errors, "ranges", ranges)) return;
+	Object.entries(ranges).forEach(([input, range]) => {
+		const field = `ranges.${input}`;
+		const limits = INPUT_LIMITS[input as keyof ManagementInputs];
+		if (!limits) {
+			errors.push({ field, message: `is not an optimizable input; use ${Object.keys(INPUT_LIMITS).join(", ")}` });
+			return;
+		}
+		if (!checkObject(errors, field, range, true)) return;
+		checkNumber(errors, `${field}.min`, range.min, { min: 0, ...limits, required: true });
+		checkNumber(errors, `${field}.max`, range.max, { min: 0, ...limits, required: true });
+		checkNumber(errors, `${field}.step`, range.step, { unit: limits.unit, required: true });
+		if (typeof range.step === "number" && range.step <= 0) {
+			errors.push({ field: `${field}.step`, message: "must be greater than 0" });
+		}
+		if (typeof range.min === "number" && typeof range.max === "number" && range.min > range.max) {
+			errors.push({ field: `${field}.max`, message: "must not be below min" });
+		}
+		if (!errors.some((e) => e.field.startsWith(`${field}.`))) {
+			const values = countRangeValues(range as unknown as InputRange);
+			if (values > MAX_EVALUATIONS) {
+				errors.push({ field: `${field}.step`, message: `gives ${values} values; widen it so the range has at most ${MAX_EVALUATIONS}` });
+			}
+		}
+	});
+}
+
+export function validateObjectiveWeights(errors: FieldError[], weights: unknown): void {
+	if (!checkObject(errors, "weights", weights)) return;
+	Object.entries(weights).forEach(([objective, weight]) => {
+		if (!OBJECTIVE_KEYS.includes(objective as ObjectiveKey)) {
+			errors.push({ field: `weights.${objective}`, message: `is not an objective; use ${OBJECTIVE_KEYS.join(", ")}` });
+		} else {
+			checkNumber(errors, `weights.${objective}`, weight, { min: 0 });
+		}
+	});
+}
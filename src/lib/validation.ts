@@ -0,0 +1,117 @@
+// One problem with one request field, e.g. { field: "economics.costs.waterPerM3", message: "must be at least 0" }
+export type FieldError = {
+	field: string;
+	message: string;
+};
+
+// Body of every 400 response: a one-line summary plus each bad field and why
+export type ValidationErrorBody = {
+	error: string;
+	fields: FieldError[];
+};
+
+export type NumberRules = {
+	min?: number;
+	max?: number;
+	integer?: boolean;
+	unit?: string;
+	required?: boolean;
+};
+
+export function validationErrorResponse(fields: FieldError[]): Response {
+	const body: ValidationErrorBody = {
+		error: `Invalid request: ${fields.map((f) => `${f.field} ${f.message}`).join("; ")}`,
+		fields
+	};
+	return Response.json(body, { status: 400 });
+}
+
+// Parsed JSON object body, or undefined when the body is missing, malformed or not an object
+export async function readJsonBody(request: Request): Promise<Record<string, unknown> | undefined> {
+	try {
+		const body = await request.json();
+		return body && typeof body === "object" && !Array.isArray(body) ? body : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+// Query parameter as a number; blank values become NaN so they fail validation instead of reading as 0
+export function numberParam(params: URLSearchParams, name: string): number | undefined {
+	if (!params.has(name)) return undefined;
+	const raw = params.get(name)?.trim();
+	return raw ? Number(raw) : NaN;
+}
+
+export function checkNumber(errors: FieldError[], field: string, value: unknown, rules: NumberRules = {}): void {
+	if (value === undefined || value === null) {
+		if (rules.required) errors.push({ field, message: "is required" });
+		return;
+	}
+	const unit = rules.unit ? ` ${rules.unit}` : "";
+	if (typeof value !== "number" || !Number.isFinite(value)) {
+		errors.push({ field, message: `must be a number${rules.unit ? ` in ${rules.unit}` : ""}` });
+	} else if (rules.integer && !Number.isInteger(value)) {
+		errors.push({ field, message: "must be a whole number" });
+	} else if (rules.min !== undefined && value < rules.min) {
+		errors.push({ field, message: `must be at least ${rules.min}${unit}` });
+	} else if (rules.max !== undefined && value > rules.max) {
+		errors.push({ field, message: `must be at most ${rules.max}${unit}` });
+	}
+}
+
+export function checkOption(errors: FieldError[], field: string, value: unknown, options: string[], required = false): void {
+	if (value === undefined || value === null) {
+		if (required) errors.push({ field, message: "is required" });
+		return;
+	}
+	if (typeof value !== "string" || !options.includes(value)) {
+		errors.push({ field, message: `must be one of ${options.join(", ")}` });
+	}
+}
+
+export function checkDate(errors: FieldError[], field: string, value: unknown, required = false): void {
+	if (value === undefined || value === null) {
+		if (required) errors.push({ field, message: "is required" });
+		return;
+	}
+	if (typeof value !== "string" || Number.isNaN(new Date(value).getTime())) {
+		errors.push({ field, message: "must be an ISO date such as 2024-06-01" });
+	}
+}
+
+// Seeds are replayed as unsigned 32-bit integers
+export function checkSeed(errors: FieldError[], field: string, value: unknown): void {
+	checkNumber(errors, field, value, { min: 0, max: 0xffffffff, integer: true });
+}
+
+export function checkCoordinates(errors: FieldError[], lat: unknown, lon: unknown): void {
+	checkNumber(errors, "lat", lat, { min: -90, max: 90, unit: "degrees", required: true });
+	checkNumber(errors, "lon", lon, { min: -180, max: 180, unit: "degrees", required: true });
+}
+
+// Plain object check for nested request sections
+export function checkObject(errors: FieldError[], field: string, value: unknown, required = false): value is Record<string, unknown> {
+	if (value === undefined) {
+		if (required) errors.push({ field, message: "is required" });
+		return false;
+	}
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		errors.push({ field, message: "must be an object" });
+		return false;
+	}
+	return true;
+}
+
+export function checkArray(errors: FieldError[], field: string, value: unknown, maxLength?: number): value is unknown[] {
+	if (value === undefined) return false;
+	if (!Array.isArray(value)) {
+		errors.push({ field, message: "must be a list" });
+		return false;
+	}
+	if (maxLength !== undefined && value.length > maxLength) {
+		errors.push({ field, message: `must have at most ${maxLength} entries` });
+		return false;
+	}
+	return true;
+}